@@ -0,0 +1,100 @@
+/**
+ * Validates public/data/skillsData.json and public/data/homeConfig.json and
+ * optionally rewrites them in canonical form.
+ *
+ * Usage:
+ *   npm run validate:data                  # check both files, fail if not canonical
+ *   npm run validate:data -- <file>...     # only the given data files
+ *   npm run format:data                    # check and rewrite in canonical form
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename, relative, resolve } from 'node:path';
+import type {
+  HomeConfig,
+  SkillsData,
+  ValidationReport,
+} from '../src/types/types';
+import {
+  validateHomeConfig,
+  validateSkillsData,
+} from '../src/utils/dataValidation';
+import { formatHomeConfig, formatSkillsData } from '../src/utils/formatData';
+
+interface DataFile {
+  validate: (input: unknown) => ValidationReport;
+  format: (input: unknown) => string;
+}
+
+const DATA_FILES: Record<string, DataFile> = {
+  'skillsData.json': {
+    validate: validateSkillsData,
+    format: (input) => formatSkillsData(input as SkillsData),
+  },
+  'homeConfig.json': {
+    validate: validateHomeConfig,
+    format: (input) => formatHomeConfig(input as HomeConfig),
+  },
+};
+
+const DEFAULT_PATHS = [
+  'public/data/skillsData.json',
+  'public/data/homeConfig.json',
+];
+
+const args = process.argv.slice(2);
+const write = args.includes('--write');
+const check = args.includes('--check');
+const paths = args.filter((arg) => !arg.startsWith('--'));
+
+let failed = false;
+
+for (const path of paths.length > 0 ? paths : DEFAULT_PATHS) {
+  const file = relative(process.cwd(), resolve(path));
+  const handler = DATA_FILES[basename(file)];
+  if (!handler) {
+    console.error(`${file}: not a known data file, skipping`);
+    continue;
+  }
+
+  let input: unknown;
+  const raw = readFileSync(file, 'utf8');
+  try {
+    input = JSON.parse(raw);
+  } catch (err) {
+    console.error(`${file}: invalid JSON - ${(err as Error).message}`);
+    failed = true;
+    continue;
+  }
+
+  const report = handler.validate(input);
+  for (const issue of report.issues) {
+    const log = issue.severity === 'error' ? console.error : console.warn;
+    log(`${file}: ${issue.severity} ${issue.path} - ${issue.message}`);
+  }
+  if (report.errorCount > 0) failed = true;
+
+  // Never rewrite a file we could not fully validate
+  if (!report.usable || report.errorCount > 0) {
+    console.error(
+      `${file}: ${report.errorCount} error(s), ${report.warningCount} warning(s)`,
+    );
+    continue;
+  }
+
+  const formatted = handler.format(input);
+  if (formatted !== raw.replace(/\r\n/g, '\n')) {
+    if (write) {
+      writeFileSync(file, formatted);
+      console.log(`${file}: rewritten in canonical form`);
+    } else if (check) {
+      console.error(
+        `${file}: not in canonical form, run "npm run format:data" to fix`,
+      );
+      failed = true;
+    }
+  }
+
+  console.log(`${file}: OK (${report.warningCount} warning(s))`);
+}
+
+process.exit(failed ? 1 : 0);
@@ -14,11 +14,28 @@ import {
   MenuOutlined,
   GithubOutlined,
   HomeOutlined,
+  LineChartOutlined,
+  ProjectOutlined,
+  SwapOutlined,
+  TableOutlined,
+  ShareAltOutlined,
+  SolutionOutlined,
 } from '@ant-design/icons';
 import HomePage from './pages/HomePage';
 import OverviewPage from './pages/OverviewPage';
 import GapAnalysisPage from './pages/GapAnalysisPage';
 import PRGeneratorPage from './pages/PRGeneratorPage';
+import TimelinePage from './pages/TimelinePage';
+import StaffingPage from './pages/StaffingPage';
+import MemberProfilePage from './pages/MemberProfilePage';
+import SkillDetailPage from './pages/SkillDetailPage';
+import CategoryDetailPage from './pages/CategoryDetailPage';
+import ComparePage from './pages/ComparePage';
+import MatrixPage from './pages/MatrixPage';
+import NetworkPage from './pages/NetworkPage';
+import MentoringPage from './pages/MentoringPage';
+import SkillsDataProvider from './context/SkillsDataProvider';
+import DataDiagnostics from './components/DataDiagnostics';
 
 const { Header, Content, Sider } = Layout;
 
@@ -27,6 +44,12 @@ const Navigation: React.FC<{
   setCollapsed: (v: boolean) => void;
 }> = ({ collapsed, setCollapsed }) => {
   const location = useLocation();
+  // Detail pages highlight the section they belong to
+  const selectedKey = /^\/(members|categories)\//.test(location.pathname)
+    ? '/overview'
+    : location.pathname.startsWith('/skills/')
+      ? '/gaps'
+      : location.pathname;
 
   const menuItems = [
     {
@@ -39,11 +62,41 @@ const Navigation: React.FC<{
       icon: <TeamOutlined />,
       label: <Link to='/overview'>Overview</Link>,
     },
+    {
+      key: '/matrix',
+      icon: <TableOutlined />,
+      label: <Link to='/matrix'>Skill Matrix</Link>,
+    },
+    {
+      key: '/network',
+      icon: <ShareAltOutlined />,
+      label: <Link to='/network'>Skill Network</Link>,
+    },
+    {
+      key: '/compare',
+      icon: <SwapOutlined />,
+      label: <Link to='/compare'>Compare</Link>,
+    },
     {
       key: '/gaps',
       icon: <SearchOutlined />,
       label: <Link to='/gaps'>Gap Analysis</Link>,
     },
+    {
+      key: '/timeline',
+      icon: <LineChartOutlined />,
+      label: <Link to='/timeline'>Timeline</Link>,
+    },
+    {
+      key: '/staffing',
+      icon: <ProjectOutlined />,
+      label: <Link to='/staffing'>Staffing</Link>,
+    },
+    {
+      key: '/mentoring',
+      icon: <SolutionOutlined />,
+      label: <Link to='/mentoring'>Mentoring</Link>,
+    },
     {
       key: '/update',
       icon: <PullRequestOutlined />,
@@ -102,7 +155,7 @@ const Navigation: React.FC<{
         </div>
         <Menu
           mode='inline'
-          selectedKeys={[location.pathname]}
+          selectedKeys={[selectedKey]}
           items={menuItems}
           style={{
             background: 'transparent',
@@ -162,7 +215,7 @@ const Navigation: React.FC<{
           >
             <Menu
               mode='vertical'
-              selectedKeys={[location.pathname]}
+              selectedKeys={[selectedKey]}
               items={menuItems}
               style={{ background: 'transparent' }}
               onClick={() => setCollapsed(true)}
@@ -189,10 +242,20 @@ const AppContent: React.FC = () => {
           }}
         >
           <div className='max-w-7xl mx-auto'>
+            <DataDiagnostics />
             <Routes>
               <Route path='/' element={<HomePage />} />
               <Route path='/overview' element={<OverviewPage />} />
               <Route path='/gaps' element={<GapAnalysisPage />} />
+              <Route path='/timeline' element={<TimelinePage />} />
+              <Route path='/staffing' element={<StaffingPage />} />
+              <Route path='/mentoring' element={<MentoringPage />} />
+              <Route path='/compare' element={<ComparePage />} />
+              <Route path='/matrix' element={<MatrixPage />} />
+              <Route path='/network' element={<NetworkPage />} />
+              <Route path='/members/:id' element={<MemberProfilePage />} />
+              <Route path='/skills/:id' element={<SkillDetailPage />} />
+              <Route path='/categories/:id' element={<CategoryDetailPage />} />
               <Route path='/update' element={<PRGeneratorPage />} />
             </Routes>
           </div>
@@ -246,9 +309,11 @@ const App: React.FC = () => {
         },
       }}
     >
-      <Router basename={import.meta.env.BASE_URL}>
-        <AppContent />
-      </Router>
+      <SkillsDataProvider>
+        <Router basename={import.meta.env.BASE_URL}>
+          <AppContent />
+        </Router>
+      </SkillsDataProvider>
     </ConfigProvider>
   );
 };
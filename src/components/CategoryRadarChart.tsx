@@ -0,0 +1,116 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import type { RadarSeries, SkillCategory } from '../types/types';
+
+interface CategoryRadarChartProps {
+  categories: SkillCategory[];
+  series: RadarSeries[];
+  size?: number;
+}
+
+// Overlays one or more series on a radar with an axis per category
+const CategoryRadarChart: React.FC<CategoryRadarChartProps> = ({
+  categories,
+  series,
+  size = 360,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const radius = size / 2 - 70; // leave room for the category labels
+
+    svg.selectAll('*').remove();
+    svg.attr('viewBox', [0, 0, size, size]);
+    if (categories.length === 0) return;
+
+    const g = svg
+      .append('g')
+      .attr('transform', `translate(${size / 2},${size / 2})`);
+
+    const maxValue = Math.max(
+      ...series.flatMap((s) => categories.map((c) => s.values[c.id] ?? 0)),
+      1,
+    );
+    const rScale = d3.scaleLinear().domain([0, maxValue]).range([0, radius]);
+    const angleSlice = (Math.PI * 2) / categories.length;
+
+    // Grid
+    rScale
+      .ticks(4)
+      .slice(1)
+      .forEach((tick) => {
+        g.append('circle')
+          .attr('r', rScale(tick))
+          .attr('fill', 'none')
+          .attr('stroke', 'rgba(255,255,255,0.08)');
+        g.append('text')
+          .attr('y', -rScale(tick))
+          .attr('dy', -2)
+          .attr('text-anchor', 'middle')
+          .attr('fill', 'rgba(255,255,255,0.3)')
+          .attr('font-size', '9px')
+          .text(tick);
+      });
+
+    // Axes and labels
+    categories.forEach((category, i) => {
+      const angle = angleSlice * i - Math.PI / 2;
+      g.append('line')
+        .attr('x2', Math.cos(angle) * radius)
+        .attr('y2', Math.sin(angle) * radius)
+        .attr('stroke', 'rgba(255,255,255,0.12)');
+      g.append('text')
+        .attr('x', Math.cos(angle) * (radius + 30))
+        .attr('y', Math.sin(angle) * (radius + 30))
+        .attr('text-anchor', 'middle')
+        .attr('dominant-baseline', 'middle')
+        .attr('fill', category.color)
+        .attr('font-size', '11px')
+        .attr('font-weight', '600')
+        .text(category.name);
+    });
+
+    const radarLine = d3
+      .lineRadial<number>()
+      .radius((d) => rScale(d))
+      .angle((_, i) => i * angleSlice)
+      .curve(d3.curveLinearClosed);
+
+    series.forEach((s) => {
+      const values = categories.map((c) => s.values[c.id] ?? 0);
+      g.append('path')
+        .datum(values)
+        .attr('d', radarLine)
+        .attr('fill', s.color)
+        .attr('fill-opacity', 0.15)
+        .attr('stroke', s.color)
+        .attr('stroke-width', 2);
+
+      categories.forEach((category, i) => {
+        const angle = angleSlice * i - Math.PI / 2;
+        const r = rScale(values[i]);
+        g.append('circle')
+          .attr('cx', Math.cos(angle) * r)
+          .attr('cy', Math.sin(angle) * r)
+          .attr('r', 3.5)
+          .attr('fill', s.color)
+          .attr('stroke', '#fff')
+          .attr('stroke-width', 1)
+          .append('title')
+          .text(`${s.name}\n${category.name}: ${values[i]}`);
+      });
+    });
+  }, [categories, series, size]);
+
+  return (
+    <svg
+      ref={svgRef}
+      className='w-full'
+      style={{ maxWidth: size, maxHeight: size }}
+    />
+  );
+};
+
+export default CategoryRadarChart;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Alert, Button, Segmented, Tag } from 'antd';
+import {
+  CloseCircleOutlined,
+  ExclamationCircleOutlined,
+} from '@ant-design/icons';
+import { useSkillsData } from '../hooks/useSkillsData';
+import type { ValidationSeverity } from '../types/types';
+
+// Shows problems found in skillsData.json so bad data is never rendered silently
+export const DataDiagnostics: React.FC = () => {
+  const { validation } = useSkillsData();
+  const [expanded, setExpanded] = useState(false);
+  const [filter, setFilter] = useState<ValidationSeverity | 'all'>('all');
+
+  if (!validation || validation.issues.length === 0) return null;
+
+  const { errorCount, warningCount } = validation;
+  const visibleIssues = validation.issues.filter(
+    (issue) => filter === 'all' || issue.severity === filter,
+  );
+
+  const summary = [
+    errorCount > 0 && `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}`,
+    warningCount > 0 &&
+      `${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`,
+  ]
+    .filter(Boolean)
+    .join(' and ');
+
+  return (
+    <Alert
+      type={errorCount > 0 ? 'error' : 'warning'}
+      showIcon
+      className='!mb-6'
+      title={
+        <div className='flex items-center justify-between gap-4'>
+          <span>
+            Data integrity check found {summary} in skillsData.json. Affected
+            entries may be missing from the charts.
+          </span>
+          <Button size='small' onClick={() => setExpanded(!expanded)}>
+            {expanded ? 'Hide details' : 'Show details'}
+          </Button>
+        </div>
+      }
+      description={
+        expanded && (
+          <div className='space-y-3 mt-2'>
+            <Segmented
+              size='small'
+              value={filter}
+              onChange={(v) => setFilter(v as ValidationSeverity | 'all')}
+              options={[
+                { label: 'All', value: 'all' },
+                { label: `Errors (${errorCount})`, value: 'error' },
+                { label: `Warnings (${warningCount})`, value: 'warning' },
+              ]}
+            />
+            <ul className='space-y-1 max-h-64 overflow-y-auto'>
+              {visibleIssues.map((issue, i) => (
+                <li key={i} className='flex items-start gap-2 text-sm'>
+                  {issue.severity === 'error' ? (
+                    <Tag icon={<CloseCircleOutlined />} color='error'>
+                      Error
+                    </Tag>
+                  ) : (
+                    <Tag icon={<ExclamationCircleOutlined />} color='warning'>
+                      Warning
+                    </Tag>
+                  )}
+                  <code className='text-gray-400 text-xs pt-0.5'>
+                    {issue.path}
+                  </code>
+                  <span className='text-gray-200'>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      }
+    />
+  );
+};
+
+export default DataDiagnostics;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Button, Input, Select, Switch, Tag } from 'antd';
+import { ExperimentOutlined } from '@ant-design/icons';
+import type { DepartureScenario, LabMember, SkillsData } from '../types/types';
+import SkillChart from './SkillChart';
+
+interface DepartureSimulatorProps {
+  members: LabMember[];
+  projectedData: SkillsData;
+  enabled: boolean;
+  scenario: DepartureScenario;
+  onToggle: (enabled: boolean) => void;
+  onScenarioChange: (scenario: DepartureScenario) => void;
+}
+
+// Controls for the "what if they leave" projection on the gap analysis page
+export const DepartureSimulator: React.FC<DepartureSimulatorProps> = ({
+  members,
+  projectedData,
+  enabled,
+  scenario,
+  onToggle,
+  onScenarioChange,
+}) => {
+  const remainingIds = new Set(projectedData.members.map((m) => m.id));
+  const departing = members.filter((m) => !remainingIds.has(m.id));
+
+  // Members with a planned end date, soonest first, as quick picks
+  const upcoming = members
+    .filter((m) => m.expectedEndDate)
+    .sort((a, b) => a.expectedEndDate!.localeCompare(b.expectedEndDate!));
+
+  return (
+    <div>
+      <div className='flex flex-wrap items-center justify-between gap-4 mb-4'>
+        <div>
+          <h2 className='text-xl font-semibold text-white'>
+            <ExperimentOutlined className='mr-2' />
+            What-If Simulation
+          </h2>
+          <p className='text-gray-400 text-sm'>
+            Project coverage for a future date or without selected members.
+            Every chart on this page follows the simulation while it is on.
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onChange={onToggle}
+          checkedChildren='Simulating'
+          unCheckedChildren='Current'
+        />
+      </div>
+
+      {enabled && (
+        <div className='space-y-4'>
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+            <div>
+              <div className='text-gray-300 text-sm mb-1'>Projected date</div>
+              <Input
+                type='date'
+                value={scenario.date ?? ''}
+                onChange={(e) =>
+                  onScenarioChange({
+                    ...scenario,
+                    date: e.target.value || undefined,
+                  })
+                }
+              />
+            </div>
+            <div>
+              <div className='text-gray-300 text-sm mb-1'>Also remove</div>
+              <Select
+                mode='multiple'
+                className='w-full'
+                placeholder='Select members'
+                value={scenario.removedMemberIds}
+                onChange={(ids) =>
+                  onScenarioChange({ ...scenario, removedMemberIds: ids })
+                }
+                options={members.map((m) => ({ value: m.id, label: m.name }))}
+                optionFilterProp='label'
+              />
+            </div>
+          </div>
+
+          {upcoming.length > 0 && (
+            <div className='flex flex-wrap items-center gap-2'>
+              <span className='text-gray-400 text-sm'>Planned departures:</span>
+              {upcoming.map((m) => (
+                <Button
+                  key={m.id}
+                  size='small'
+                  onClick={() =>
+                    onScenarioChange({ ...scenario, date: m.expectedEndDate })
+                  }
+                >
+                  {m.name} · {m.expectedEndDate}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className='flex flex-wrap items-center gap-2'>
+            <span className='text-gray-400 text-sm'>
+              {departing.length === 0
+                ? 'Nobody leaves in this scenario.'
+                : `${departing.length} of ${members.length} members gone:`}
+            </span>
+            {departing.map((m) => (
+              <Tag key={m.id} color='red'>
+                {m.name}
+              </Tag>
+            ))}
+          </div>
+
+          <div className='glass-card overflow-hidden'>
+            <SkillChart data={projectedData} height={450} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DepartureSimulator;
@@ -5,6 +5,7 @@ import { Avatar, Tooltip } from 'antd';
 import { UserOutlined, TeamOutlined, StarOutlined } from '@ant-design/icons';
 import type { SkillGap, SkillCategory, ProficiencyLevel } from '../types/types';
 import { PROFICIENCY_COLORS, PROFICIENCY_LABELS } from '../types/types';
+import SkillLink from './SkillLink';
 
 interface GapDistributionChartProps {
   gaps: SkillGap[];
@@ -663,7 +664,9 @@ const GapDistributionChart: React.FC<GapDistributionChartProps> = ({
               </div>
               <div>
                 <h3 className='text-white font-bold text-lg'>
-                  {selectedSkillInfo.name}
+                  <SkillLink skillId={selectedSkillInfo.id}>
+                    {selectedSkillInfo.name}
+                  </SkillLink>
                 </h3>
                 <span className='text-gray-400 text-sm flex items-center gap-1'>
                   <TeamOutlined /> {totalSelectedMembers} members
@@ -737,9 +740,7 @@ const GapDistributionChart: React.FC<GapDistributionChartProps> = ({
                             style={{
                               backgroundColor: `${PROFICIENCY_COLORS[level]}25`,
                             }}
-                            onClick={() =>
-                              navigate(`/overview?member=${member.name}`)
-                            }
+                            onClick={() => navigate(`/members/${member.id}`)}
                           >
                             <Avatar
                               size={18}
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Tag } from 'antd';
+import {
+  CheckCircleOutlined,
+  ExclamationCircleOutlined,
+  WarningOutlined,
+} from '@ant-design/icons';
+import type { GapStatus } from '../types/types';
+
+const GapStatusTag: React.FC<{ status: GapStatus }> = ({ status }) => {
+  if (status === 'no-coverage') {
+    return (
+      <Tag icon={<WarningOutlined />} color='error'>
+        No Coverage
+      </Tag>
+    );
+  }
+  if (status === 'no-expert') {
+    return (
+      <Tag icon={<ExclamationCircleOutlined />} color='warning'>
+        No Expert
+      </Tag>
+    );
+  }
+  if (status === 'limited') {
+    return (
+      <Tag icon={<ExclamationCircleOutlined />} color='warning'>
+        Limited
+      </Tag>
+    );
+  }
+  return (
+    <Tag icon={<CheckCircleOutlined />} color='success'>
+      Healthy
+    </Tag>
+  );
+};
+
+export default GapStatusTag;
@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { Card, Select, Steps, Tag } from 'antd';
+import { NodeIndexOutlined } from '@ant-design/icons';
+import {
+  calculateLearningPath,
+  getOpenLearningGoal,
+} from '../hooks/useSkillsData';
+import type { LabMember, SkillsData } from '../types/types';
+import { PROFICIENCY_COLORS, PROFICIENCY_LABELS } from '../types/types';
+import SkillLink from './SkillLink';
+
+interface LearningPathCardProps {
+  data: SkillsData;
+  member: LabMember;
+}
+
+const LearningPathCard: React.FC<LearningPathCardProps> = ({
+  data,
+  member,
+}) => {
+  // Start from the member's first open learning goal, if any
+  const [targetId, setTargetId] = useState<string | null>(
+    () =>
+      member.learningGoals?.find((g) => getOpenLearningGoal(member, g.skillId))
+        ?.skillId ?? null,
+  );
+
+  const path = useMemo(
+    () => (targetId ? calculateLearningPath(data, member, targetId) : null),
+    [data, member, targetId],
+  );
+
+  return (
+    <Card className='glass-card'>
+      <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+        <h2 className='text-xl font-semibold text-white'>
+          <NodeIndexOutlined className='mr-2 text-sky-400' />
+          Learning Path
+        </h2>
+        <Select
+          allowClear
+          showSearch
+          placeholder='Choose a target skill'
+          value={targetId}
+          onChange={(v) => setTargetId(v ?? null)}
+          optionFilterProp='label'
+          options={data.skills.map((s) => ({ value: s.id, label: s.name }))}
+          className='min-w-[220px]'
+        />
+      </div>
+
+      {!path ? (
+        <p className='text-gray-400'>
+          Pick a skill to see what {member.name} would learn first, based on
+          skill prerequisites and parent skills.
+        </p>
+      ) : (
+        <>
+          {path.alreadyMet.length > 0 && (
+            <div className='text-sm text-gray-400 mb-4'>
+              Already in place:{' '}
+              {path.alreadyMet.map((skill, i) => (
+                <span key={skill.id}>
+                  {i > 0 && ', '}
+                  <SkillLink skillId={skill.id} className='text-green-400'>
+                    {skill.name}
+                  </SkillLink>
+                </span>
+              ))}
+            </div>
+          )}
+          <Steps
+            orientation='vertical'
+            size='small'
+            current={-1}
+            items={path.steps.map((step) => ({
+              status: step.currentLevel ? 'process' : 'wait',
+              title: (
+                <SkillLink
+                  skillId={step.skill.id}
+                  className='text-white hover:underline'
+                >
+                  {step.skill.name}
+                </SkillLink>
+              ),
+              subTitle: step.currentLevel ? (
+                <Tag
+                  style={{
+                    background: `${PROFICIENCY_COLORS[step.currentLevel]}20`,
+                    borderColor: PROFICIENCY_COLORS[step.currentLevel],
+                    color: PROFICIENCY_COLORS[step.currentLevel],
+                  }}
+                >
+                  {PROFICIENCY_LABELS[step.currentLevel]}
+                </Tag>
+              ) : undefined,
+              content:
+                step.unlocks.length > 0 ? (
+                  <span className='text-gray-400 text-sm'>
+                    Needed for {step.unlocks.map((s) => s.name).join(', ')}
+                  </span>
+                ) : (
+                  <span className='text-gray-400 text-sm'>Target skill</span>
+                ),
+            }))}
+          />
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default LearningPathCard;
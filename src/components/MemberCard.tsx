@@ -8,19 +8,18 @@ import {
   getMemberBlendedColor,
   getMemberCategoryWeights,
 } from '../hooks/useSkillsData';
+import SkillLink from './SkillLink';
 
 interface MemberCardProps {
   member: LabMember;
   data: SkillsData;
   onClick?: (member: LabMember) => void;
-  onSkillClick?: (skillId: string) => void;
 }
 
 const SkillTag: React.FC<{
   skill: MemberSkill;
   data: SkillsData;
-  onSkillClick?: (skillId: string) => void;
-}> = ({ skill, data, onSkillClick }) => {
+}> = ({ skill, data }) => {
   const skillInfo = getSkillById(data.skills, skill.skillId);
   if (!skillInfo) return null;
 
@@ -43,28 +42,31 @@ const SkillTag: React.FC<{
               Spans: {categories.map((c) => c?.name).join(', ')}
             </div>
           )}
+          {skill.lastVerified && (
+            <div className='text-xs mt-1 opacity-60'>
+              Last verified {skill.lastVerified}
+            </div>
+          )}
         </div>
       }
     >
-      <Tag
-        className='category-badge m-1 cursor-pointer hover:brightness-110 transition-all'
-        onClick={(e) => {
-          e.stopPropagation();
-          onSkillClick?.(skill.skillId);
-        }}
-        style={{
-          background: `${PROFICIENCY_COLORS[skill.proficiency]}20`,
-          borderColor: PROFICIENCY_COLORS[skill.proficiency],
-          color: PROFICIENCY_COLORS[skill.proficiency],
-        }}
-      >
-        <span
-          className='proficiency-dot'
-          style={{ backgroundColor: PROFICIENCY_COLORS[skill.proficiency] }}
-        />
-        {skillInfo.name}
-        {isOverlap && <span className='ml-1 opacity-60'>⟷</span>}
-      </Tag>
+      <SkillLink skillId={skill.skillId}>
+        <Tag
+          className='category-badge m-1 cursor-pointer hover:brightness-110 transition-all'
+          style={{
+            background: `${PROFICIENCY_COLORS[skill.proficiency]}20`,
+            borderColor: PROFICIENCY_COLORS[skill.proficiency],
+            color: PROFICIENCY_COLORS[skill.proficiency],
+          }}
+        >
+          <span
+            className='proficiency-dot'
+            style={{ backgroundColor: PROFICIENCY_COLORS[skill.proficiency] }}
+          />
+          {skillInfo.name}
+          {isOverlap && <span className='ml-1 opacity-60'>⟷</span>}
+        </Tag>
+      </SkillLink>
     </Tooltip>
   );
 };
@@ -73,7 +75,6 @@ export const MemberCard: React.FC<MemberCardProps> = ({
   member,
   data,
   onClick,
-  onSkillClick,
 }) => {
   const categoryWeights = getMemberCategoryWeights(member, data);
   const blendedColor = getMemberBlendedColor(categoryWeights, data.categories);
@@ -213,12 +214,7 @@ export const MemberCard: React.FC<MemberCardProps> = ({
               </span>
               <Flex wrap={true} gap={5}>
                 {visibleSkills.map((skill) => (
-                  <SkillTag
-                    key={skill.skillId}
-                    skill={skill}
-                    data={data}
-                    onSkillClick={onSkillClick}
-                  />
+                  <SkillTag key={skill.skillId} skill={skill} data={data} />
                 ))}
                 {!expanded && hiddenCount > 0 && (
                   <Tag
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Badge, Button, Card, List, Space, Tag } from 'antd';
+import {
+  ArrowDownOutlined,
+  ArrowUpOutlined,
+  DeleteOutlined,
+  GithubOutlined,
+  UndoOutlined,
+} from '@ant-design/icons';
+import type { ChangeAction, DataChange } from '../../types/types';
+import { CHANGE_ACTION_LABELS, DATA_ENTITY_LABELS } from '../../types/types';
+
+interface ChangeSetPanelProps {
+  changes: DataChange[];
+  onMove: (from: number, to: number) => void;
+  onRemove: (changeId: string) => void;
+  onClear: () => void;
+  onReview: () => void;
+}
+
+const ACTION_COLORS: Record<ChangeAction, string> = {
+  add: 'green',
+  update: 'blue',
+  delete: 'red',
+};
+
+export const ChangeSetPanel: React.FC<ChangeSetPanelProps> = ({
+  changes,
+  onMove,
+  onRemove,
+  onClear,
+  onReview,
+}) => {
+  return (
+    <Card className='glass-card'>
+      <div className='flex flex-wrap justify-between items-center gap-3 mb-3'>
+        <Space>
+          <h2 className='text-lg font-semibold text-white'>Staged Changes</h2>
+          {changes.length > 0 && (
+            <Badge
+              count={changes.length}
+              style={{ backgroundColor: '#52c41a' }}
+            />
+          )}
+        </Space>
+        <Space>
+          <Button
+            size='small'
+            icon={<UndoOutlined />}
+            onClick={onClear}
+            disabled={changes.length === 0}
+          >
+            Clear All
+          </Button>
+          <Button
+            type='primary'
+            size='small'
+            icon={<GithubOutlined />}
+            onClick={onReview}
+            disabled={changes.length === 0}
+          >
+            Review & Generate PR
+          </Button>
+        </Space>
+      </div>
+      {changes.length === 0 ? (
+        <p className='text-gray-400 text-sm'>
+          Member, skill and category edits are staged here and submitted
+          together as one pull request, applied from top to bottom.
+        </p>
+      ) : (
+        <List
+          size='small'
+          dataSource={changes}
+          renderItem={(item, index) => (
+            <List.Item
+              className='!border-white/10'
+              actions={[
+                <Button
+                  key='up'
+                  type='text'
+                  size='small'
+                  icon={<ArrowUpOutlined />}
+                  disabled={index === 0}
+                  onClick={() => onMove(index, index - 1)}
+                />,
+                <Button
+                  key='down'
+                  type='text'
+                  size='small'
+                  icon={<ArrowDownOutlined />}
+                  disabled={index === changes.length - 1}
+                  onClick={() => onMove(index, index + 1)}
+                />,
+                <Button
+                  key='remove'
+                  type='text'
+                  size='small'
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={() => onRemove(item.id)}
+                />,
+              ]}
+            >
+              <span className='text-gray-500 mr-2'>{index + 1}.</span>
+              <Tag color={ACTION_COLORS[item.action]}>
+                {CHANGE_ACTION_LABELS[item.action].toUpperCase()}
+              </Tag>
+              <Tag>{DATA_ENTITY_LABELS[item.entity]}</Tag>
+              <span className='text-gray-300'>{item.description}</span>
+            </List.Item>
+          )}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default ChangeSetPanel;
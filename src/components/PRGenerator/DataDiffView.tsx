@@ -0,0 +1,71 @@
+import React from 'react';
+import { Tag } from 'antd';
+import type { DiffChangeType, EntityDiff } from '../../types/types';
+import { DATA_ENTITY_LABELS } from '../../types/types';
+import { formatDataValue } from '../../utils/diffData';
+
+interface DataDiffViewProps {
+  diffs: EntityDiff[];
+}
+
+const CHANGE_STYLES: Record<DiffChangeType, { label: string; color: string }> =
+  {
+    added: { label: 'Added', color: 'green' },
+    removed: { label: 'Removed', color: 'red' },
+    changed: { label: 'Changed', color: 'orange' },
+  };
+
+export const DataDiffView: React.FC<DataDiffViewProps> = ({ diffs }) => {
+  if (diffs.length === 0) {
+    return (
+      <p className='text-gray-400 text-sm'>
+        These edits do not change the data.
+      </p>
+    );
+  }
+
+  return (
+    <div className='space-y-2 max-h-72 overflow-y-auto'>
+      {diffs.map((diff) => (
+        <div
+          key={`${diff.entity}:${diff.id}`}
+          className='p-3 rounded-lg bg-black/30'
+        >
+          <div className='flex flex-wrap items-center gap-2'>
+            <Tag color={CHANGE_STYLES[diff.change].color}>
+              {CHANGE_STYLES[diff.change].label}
+            </Tag>
+            <Tag>{DATA_ENTITY_LABELS[diff.entity]}</Tag>
+            <span className='text-white font-medium'>{diff.name}</span>
+            <span className='text-gray-500 text-xs'>{diff.id}</span>
+          </div>
+          {diff.fields.length > 0 && (
+            <div className='mt-2 space-y-1 text-sm'>
+              {diff.fields.map((field) => (
+                <div key={field.field} className='break-all'>
+                  <span className='text-gray-400'>{field.field}: </span>
+                  {/* Added and removed entries list only the side they have */}
+                  {field.before !== undefined && (
+                    <code className='text-red-300 line-through'>
+                      {formatDataValue(field.before)}
+                    </code>
+                  )}
+                  {field.before !== undefined && field.after !== undefined && (
+                    <span className='text-gray-500 mx-2'>→</span>
+                  )}
+                  {field.after !== undefined && (
+                    <code className='text-green-300'>
+                      {formatDataValue(field.after)}
+                    </code>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DataDiffView;
@@ -10,30 +10,69 @@ import {
   Select,
   Tooltip,
 } from 'antd';
-import { GithubOutlined, DeleteOutlined } from '@ant-design/icons';
+import {
+  GithubOutlined,
+  DeleteOutlined,
+  CheckOutlined,
+  PlusOutlined,
+} from '@ant-design/icons';
 import type {
   LabMember,
+  LearningGoal,
   MemberSkill,
   ProficiencyLevel,
   Subcategory,
   SkillCategory,
 } from '../../types/types';
 import { PROFICIENCY_LABELS } from '../../types/types';
+import { todayISODate } from '../../utils/dates';
+import { PROFICIENCY_ORDER } from '../../hooks/useSkillsData';
 
 const { Option } = Select;
 
+// Record a level change in the skill's history. Several changes on the same
+// day collapse into one entry so the history only keeps real growth steps.
+// Entries without history first get their previous level, dated when it is
+// last known to have been held, so the change does not erase it.
+const withProficiencyChange = (
+  skill: MemberSkill,
+  proficiency: ProficiencyLevel,
+  memberStartDate?: string,
+): MemberSkill => {
+  const date = todayISODate();
+  const since = skill.lastVerified ?? memberStartDate;
+  const previous = skill.history?.length
+    ? skill.history
+    : since
+      ? [{ date: since, proficiency: skill.proficiency }]
+      : [];
+  const history = previous.filter((h) => h.date !== date);
+  const last = history[history.length - 1];
+  return {
+    ...skill,
+    proficiency,
+    lastVerified: date,
+    history:
+      last && last.proficiency === proficiency
+        ? history
+        : [...history, { date, proficiency }],
+  };
+};
+
 interface MemberFormProps {
   form: ReturnType<typeof Form.useForm>[0];
   editMode: 'new' | 'edit';
   selectedMember: LabMember | null;
   skills: MemberSkill[];
+  learningGoals: LearningGoal[];
   allSkills: Subcategory[];
   categories: SkillCategory[];
   roleOptions: { value: string; label: string }[];
   hasChanges: boolean;
   onSkillsChange: (skills: MemberSkill[]) => void;
+  onLearningGoalsChange: (goals: LearningGoal[]) => void;
   onFormValuesChange: (changedValues: any, allValues: any) => void;
-  onGeneratePR: (formData: any) => void;
+  onStage: (formData: any) => void;
   onRemoveMember: () => void;
 }
 
@@ -42,19 +81,30 @@ export const MemberForm: React.FC<MemberFormProps> = ({
   editMode,
   selectedMember,
   skills,
+  learningGoals,
   allSkills,
   categories,
   roleOptions,
   hasChanges,
   onSkillsChange,
+  onLearningGoalsChange,
   onFormValuesChange,
-  onGeneratePR,
+  onStage,
   onRemoveMember,
 }) => {
   const addSkill = (skillId: string, proficiency: ProficiencyLevel) => {
     const exists = skills.some((s) => s.skillId === skillId);
     if (!exists) {
-      onSkillsChange([...skills, { skillId, proficiency }]);
+      const date = todayISODate();
+      onSkillsChange([
+        ...skills,
+        {
+          skillId,
+          proficiency,
+          lastVerified: date,
+          history: [{ date, proficiency }],
+        },
+      ]);
     }
   };
 
@@ -67,10 +117,68 @@ export const MemberForm: React.FC<MemberFormProps> = ({
     proficiency: ProficiencyLevel,
   ) => {
     onSkillsChange(
-      skills.map((s) => (s.skillId === skillId ? { ...s, proficiency } : s)),
+      skills.map((s) =>
+        s.skillId === skillId && s.proficiency !== proficiency
+          ? withProficiencyChange(
+              s,
+              proficiency,
+              form.getFieldValue('startDate') || undefined,
+            )
+          : s,
+      ),
+    );
+  };
+
+  // Confirm the current level is still accurate without changing it
+  const verifySkill = (skillId: string) => {
+    onSkillsChange(
+      skills.map((s) =>
+        s.skillId === skillId ? { ...s, lastVerified: todayISODate() } : s,
+      ),
     );
   };
 
+  // Goal levels start one step above the member's current level
+  const goalLevels = (skillId: string) => {
+    const current = skills.find((s) => s.skillId === skillId)?.proficiency;
+    return PROFICIENCY_ORDER.slice(
+      current ? PROFICIENCY_ORDER.indexOf(current) + 1 : 0,
+    );
+  };
+
+  const addGoal = () => {
+    const skill = allSkills.find(
+      (s) =>
+        !learningGoals.some((g) => g.skillId === s.id) &&
+        goalLevels(s.id).length > 0,
+    );
+    if (!skill) return;
+    onLearningGoalsChange([
+      ...learningGoals,
+      { skillId: skill.id, targetLevel: goalLevels(skill.id)[0] },
+    ]);
+  };
+
+  const updateGoal = (index: number, changes: Partial<LearningGoal>) => {
+    onLearningGoalsChange(
+      learningGoals.map((goal, i) => {
+        if (i !== index) return goal;
+        const updated = { ...goal, ...changes };
+        // Keep the target above the current level when the skill changes
+        const levels = goalLevels(updated.skillId);
+        if (!levels.includes(updated.targetLevel) && levels.length > 0) {
+          updated.targetLevel = levels[0];
+        }
+        if (!updated.targetDate) delete updated.targetDate;
+        return updated;
+      }),
+    );
+  };
+
+  const removeGoal = (index: number) => {
+    onLearningGoalsChange(learningGoals.filter((_, i) => i !== index));
+  };
+
   return (
     <Card className='glass-card lg:col-span-2'>
       <h2 className='text-lg font-semibold text-white mb-4'>
@@ -80,7 +188,7 @@ export const MemberForm: React.FC<MemberFormProps> = ({
       <Form
         form={form}
         layout='vertical'
-        onFinish={onGeneratePR}
+        onFinish={onStage}
         onValuesChange={onFormValuesChange}
       >
         <div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
@@ -118,6 +226,31 @@ export const MemberForm: React.FC<MemberFormProps> = ({
           >
             <Input prefix={<GithubOutlined />} placeholder='johndoe' />
           </Form.Item>
+          <Form.Item
+            name='startDate'
+            label={<span className='text-gray-300'>Start Date</span>}
+          >
+            <Input type='date' />
+          </Form.Item>
+          <Form.Item
+            name='expectedEndDate'
+            label={<span className='text-gray-300'>Expected End Date</span>}
+            dependencies={['startDate']}
+            rules={[
+              ({ getFieldValue }) => ({
+                validator: (_, value?: string) =>
+                  !value ||
+                  !getFieldValue('startDate') ||
+                  value >= getFieldValue('startDate')
+                    ? Promise.resolve()
+                    : Promise.reject(
+                        new Error('End date must be after the start date'),
+                      ),
+              }),
+            ]}
+          >
+            <Input type='date' />
+          </Form.Item>
         </div>
 
         <Divider className='border-gray-700' />
@@ -198,6 +331,33 @@ export const MemberForm: React.FC<MemberFormProps> = ({
                           )}
                         </Select>
                       )}
+                      {isSelected && (
+                        <Tooltip
+                          title={
+                            <div>
+                              <div>
+                                Last verified:{' '}
+                                {selectedSkill?.lastVerified ?? 'never'}
+                              </div>
+                              {selectedSkill?.history?.map((h) => (
+                                <div key={h.date} className='text-xs'>
+                                  {h.date}: {PROFICIENCY_LABELS[h.proficiency]}
+                                </div>
+                              ))}
+                              <div className='text-xs opacity-70 mt-1'>
+                                Click to confirm the level is still accurate
+                              </div>
+                            </div>
+                          }
+                        >
+                          <Button
+                            size='small'
+                            type='text'
+                            icon={<CheckOutlined />}
+                            onClick={() => verifySkill(skill.id)}
+                          />
+                        </Tooltip>
+                      )}
                     </div>
                   );
                 })}
@@ -215,15 +375,90 @@ export const MemberForm: React.FC<MemberFormProps> = ({
           </div>
         )}
 
+        <Divider className='border-gray-700' />
+
+        {/* Learning Goals */}
+        <h3 className='text-white font-medium mb-1'>Learning Goals</h3>
+        <p className='text-gray-400 text-sm mb-4'>
+          Skills this member is working towards. Gap analysis counts them as
+          planned growth.
+        </p>
+        <div className='space-y-2 mb-4'>
+          {learningGoals.map((goal, index) => {
+            const levels = goalLevels(goal.skillId);
+            return (
+              <div
+                key={goal.skillId}
+                className='flex flex-wrap items-center gap-2'
+              >
+                <Select
+                  showSearch
+                  size='small'
+                  value={goal.skillId}
+                  onChange={(skillId) => updateGoal(index, { skillId })}
+                  optionFilterProp='label'
+                  options={allSkills
+                    .filter(
+                      (s) =>
+                        s.id === goal.skillId ||
+                        !learningGoals.some((g) => g.skillId === s.id),
+                    )
+                    .map((s) => ({ value: s.id, label: s.name }))}
+                  style={{ width: 220 }}
+                />
+                <Select
+                  size='small'
+                  value={goal.targetLevel}
+                  onChange={(targetLevel) => updateGoal(index, { targetLevel })}
+                  style={{ width: 120 }}
+                >
+                  {(levels.length ? levels : [goal.targetLevel]).map(
+                    (level) => (
+                      <Option key={level} value={level}>
+                        {PROFICIENCY_LABELS[level]}
+                      </Option>
+                    ),
+                  )}
+                </Select>
+                <Input
+                  type='date'
+                  size='small'
+                  value={goal.targetDate ?? ''}
+                  onChange={(e) =>
+                    updateGoal(index, { targetDate: e.target.value })
+                  }
+                  style={{ width: 150 }}
+                />
+                {levels.length === 0 && <Tag color='success'>Met</Tag>}
+                <Button
+                  size='small'
+                  type='text'
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={() => removeGoal(index)}
+                />
+              </div>
+            );
+          })}
+          <Button
+            type='dashed'
+            size='small'
+            icon={<PlusOutlined />}
+            onClick={addGoal}
+          >
+            Add Goal
+          </Button>
+        </div>
+
         <div className='flex gap-2'>
           <Button
             type='primary'
             htmlType='submit'
-            icon={<GithubOutlined />}
+            icon={<PlusOutlined />}
             disabled={!hasChanges}
             className='flex-1'
           >
-            Generate PR Content
+            {editMode === 'new' ? 'Stage New Member' : 'Stage Changes'}
           </Button>
           {editMode === 'edit' && selectedMember && (
             <Button danger icon={<DeleteOutlined />} onClick={onRemoveMember}>
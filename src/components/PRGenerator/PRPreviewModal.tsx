@@ -1,6 +1,21 @@
 import React from 'react';
-import { Modal, Input, Button, Divider } from 'antd';
-import { CopyOutlined, GithubOutlined } from '@ant-design/icons';
+import { Modal, Input, Button, Divider, Radio, Tag } from 'antd';
+import {
+  BranchesOutlined,
+  CopyOutlined,
+  GithubOutlined,
+  WarningOutlined,
+} from '@ant-design/icons';
+import type {
+  ConflictResolution,
+  EntityDiff,
+  MergeConflict,
+  ValidationIssue,
+} from '../../types/types';
+import { DATA_ENTITY_LABELS } from '../../types/types';
+import { formatDataValue } from '../../utils/diffData';
+import { getConflictKey } from '../../utils/mergeData';
+import { DataDiffView } from './DataDiffView';
 
 const { TextArea } = Input;
 
@@ -8,19 +23,33 @@ interface PRPreviewModalProps {
   open: boolean;
   onClose: () => void;
   prContent: string;
+  diffs: EntityDiff[];
   githubToken: string;
   onGithubTokenChange: (token: string) => void;
   onCreatePR: () => void;
   onCopyToClipboard: () => void;
   creatingPR: boolean;
-  targetRepo: { owner: string; repo: string };
-  onTargetRepoChange: (repo: { owner: string; repo: string }) => void;
+  targetRepo: { owner: string; repo: string; branch: string };
+  onTargetRepoChange: (repo: {
+    owner: string;
+    repo: string;
+    branch: string;
+  }) => void;
+  defaultBranch: string | null;
+  conflicts: MergeConflict[];
+  mergeErrors: ValidationIssue[];
+  conflictResolutions: Record<string, ConflictResolution>;
+  onConflictResolutionChange: (
+    key: string,
+    resolution: ConflictResolution,
+  ) => void;
 }
 
 export const PRPreviewModal: React.FC<PRPreviewModalProps> = ({
   open,
   onClose,
   prContent,
+  diffs,
   githubToken,
   onGithubTokenChange,
   onCreatePR,
@@ -28,7 +57,17 @@ export const PRPreviewModal: React.FC<PRPreviewModalProps> = ({
   creatingPR,
   targetRepo,
   onTargetRepoChange,
+  defaultBranch,
+  conflicts,
+  mergeErrors,
+  conflictResolutions,
+  onConflictResolutionChange,
 }) => {
+  const baseBranch = targetRepo.branch.trim() || defaultBranch;
+  const unresolved = conflicts.filter(
+    (c) => !conflictResolutions[getConflictKey(c)],
+  ).length;
+
   return (
     <Modal
       title='Pull Request'
@@ -38,6 +77,11 @@ export const PRPreviewModal: React.FC<PRPreviewModalProps> = ({
       footer={null}
     >
       <div className='space-y-4'>
+        <div className='bg-white/5 border border-white/10 p-4 rounded-lg'>
+          <h4 className='font-semibold text-white mb-2'>Data Changes</h4>
+          <DataDiffView diffs={diffs} />
+        </div>
+
         <div className='bg-yellow-500/10 border border-yellow-500/20 p-4 rounded-lg'>
           <h4 className='font-semibold text-yellow-400 mb-2'>
             Target Repository
@@ -45,7 +89,8 @@ export const PRPreviewModal: React.FC<PRPreviewModalProps> = ({
           <div className='text-sm text-gray-400 mb-3'>
             <p className='mb-2'>
               Repository auto-detected from GitHub Pages URL. You can edit if
-              needed for custom domains.
+              needed for custom domains. Leave the base branch empty to use the
+              repository's default branch.
             </p>
           </div>
           <div className='grid grid-cols-2 gap-2'>
@@ -64,7 +109,31 @@ export const PRPreviewModal: React.FC<PRPreviewModalProps> = ({
                 onTargetRepoChange({ ...targetRepo, repo: e.target.value })
               }
             />
+            <Input
+              className='col-span-2'
+              placeholder={
+                defaultBranch
+                  ? `Base Branch (default: ${defaultBranch})`
+                  : 'Base Branch (default branch of the repository)'
+              }
+              value={targetRepo.branch}
+              onChange={(e) =>
+                onTargetRepoChange({ ...targetRepo, branch: e.target.value })
+              }
+              prefix={<BranchesOutlined />}
+            />
           </div>
+          <p className='text-sm text-gray-400 mt-3'>
+            The PR will be opened against{' '}
+            <code className='text-yellow-300'>
+              {targetRepo.owner}/{targetRepo.repo}:
+              {baseBranch ?? 'its default branch'}
+            </code>
+            {!targetRepo.branch.trim() &&
+              defaultBranch &&
+              ' (repository default)'}
+            .
+          </p>
         </div>
 
         <div className='bg-blue-500/10 border border-blue-500/20 p-4 rounded-lg'>
@@ -93,6 +162,13 @@ export const PRPreviewModal: React.FC<PRPreviewModalProps> = ({
                 </li>
               </ul>
             </div>
+            <p>
+              No write access to the repository? The branch is pushed to a fork
+              under your account instead (created on first use) and the PR is
+              opened from there. Fine-grained tokens then also need{' '}
+              <span className='text-green-400'>Administration</span> (Read &
+              write) to create the fork.
+            </p>
             <p>
               <a
                 href='https://github.com/settings/tokens/new?scopes=repo&description=RoboSkills%20PR%20Bot'
@@ -114,6 +190,7 @@ export const PRPreviewModal: React.FC<PRPreviewModalProps> = ({
               type='primary'
               loading={creatingPR}
               onClick={onCreatePR}
+              disabled={unresolved > 0}
               icon={<GithubOutlined />}
             >
               Create PR
@@ -121,6 +198,82 @@ export const PRPreviewModal: React.FC<PRPreviewModalProps> = ({
           </div>
         </div>
 
+        {conflicts.length > 0 && (
+          <div className='bg-red-500/10 border border-red-500/20 p-4 rounded-lg'>
+            <h4 className='font-semibold text-red-400 mb-2'>
+              <WarningOutlined className='mr-2' />
+              Conflicts with Upstream Changes
+            </h4>
+            <p className='text-sm text-gray-400 mb-3'>
+              Someone changed the same fields since this page was loaded.
+              Non-conflicting upstream changes are kept automatically. Choose a
+              version for each conflict below
+              {unresolved > 0
+                ? ` (${unresolved} left), then create the PR again.`
+                : ', then create the PR again.'}
+            </p>
+            <div className='space-y-3'>
+              {conflicts.map((conflict) => {
+                const key = getConflictKey(conflict);
+                return (
+                  <div key={key} className='p-3 rounded-lg bg-black/30'>
+                    <div className='flex flex-wrap items-center gap-2 mb-2'>
+                      <Tag>{DATA_ENTITY_LABELS[conflict.entity]}</Tag>
+                      <span className='text-white font-medium'>
+                        {conflict.name}
+                      </span>
+                      <span className='text-gray-400 text-sm'>
+                        {conflict.field || 'entire entry'}
+                      </span>
+                    </div>
+                    <Radio.Group
+                      value={conflictResolutions[key]}
+                      onChange={(e) =>
+                        onConflictResolutionChange(key, e.target.value)
+                      }
+                      className='!flex flex-col gap-1'
+                    >
+                      <Radio value='local'>
+                        <span className='text-gray-400'>Mine: </span>
+                        <code className='text-green-300 break-all'>
+                          {formatDataValue(conflict.local)}
+                        </code>
+                      </Radio>
+                      <Radio value='remote'>
+                        <span className='text-gray-400'>Upstream: </span>
+                        <code className='text-yellow-300 break-all'>
+                          {formatDataValue(conflict.remote)}
+                        </code>
+                      </Radio>
+                    </Radio.Group>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {mergeErrors.length > 0 && (
+          <div className='bg-red-500/10 border border-red-500/20 p-4 rounded-lg'>
+            <h4 className='font-semibold text-red-400 mb-2'>
+              <WarningOutlined className='mr-2' />
+              Merged Data Would Be Invalid
+            </h4>
+            <p className='text-sm text-gray-400 mb-3'>
+              Combined with the latest upstream data, these changes break the
+              references below. Nothing was committed.
+            </p>
+            <ul className='list-disc pl-4 space-y-1 text-sm'>
+              {mergeErrors.map((issue, i) => (
+                <li key={i} className='text-red-300'>
+                  <code className='text-gray-400'>{issue.path}</code>:{' '}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <Divider className='!my-4 border-gray-700'>OR Manual Creation</Divider>
 
         <TextArea
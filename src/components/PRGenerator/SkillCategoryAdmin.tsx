@@ -10,52 +10,41 @@ import {
   Form,
   Modal,
   ColorPicker,
-  Badge,
-  List,
   Checkbox,
   Divider,
+  Select,
 } from 'antd';
 import {
   DeleteOutlined,
   EditOutlined,
   PlusOutlined,
   WarningOutlined,
-  UndoOutlined,
-  GithubOutlined,
 } from '@ant-design/icons';
-import type { SkillCategory, Subcategory, LabMember } from '../../types/types';
+import type {
+  DataChange,
+  SkillCategory,
+  Subcategory,
+  LabMember,
+} from '../../types/types';
 import type { ColumnsType } from 'antd/es/table';
+import { findSkillCycle } from '../../utils/skillGraph';
 
-// Type for pending changes
-interface PendingChange {
-  id: string;
-  type:
-    | 'add-skill'
-    | 'update-skill'
-    | 'delete-skill'
-    | 'add-category'
-    | 'update-category'
-    | 'delete-category';
-  data: any;
-  description: string;
-}
+// New skills and categories take their ID from the name
+const toId = (name: string) => name.toLowerCase().replace(/\s+/g, '-');
 
 interface SkillCategoryAdminProps {
   categories: SkillCategory[];
   skills: Subcategory[];
   members: LabMember[];
-  onGenerateBatchPR: (changes: PendingChange[]) => void;
+  onStageChange: (change: Omit<DataChange, 'id'>) => void;
 }
 
 export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
   categories,
   skills,
   members,
-  onGenerateBatchPR,
+  onStageChange,
 }) => {
-  // Pending changes state
-  const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
-
   // Category Form State
   const [categoryModalOpen, setCategoryModalOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<SkillCategory | null>(
@@ -69,40 +58,6 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
   const [isAddingSkill, setIsAddingSkill] = useState(false);
   const [skillForm] = Form.useForm();
 
-  // Add a pending change (prevents duplicates)
-  const addPendingChange = (change: Omit<PendingChange, 'id'>) => {
-    setPendingChanges((prev) => {
-      // Check if a change with same type and data.id already exists
-      const existingIndex = prev.findIndex(
-        (c) => c.type === change.type && c.data.id === change.data.id,
-      );
-
-      if (existingIndex >= 0) {
-        // Replace existing change with updated one
-        const updated = [...prev];
-        updated[existingIndex] = {
-          ...change,
-          id: prev[existingIndex].id,
-        };
-        return updated;
-      }
-
-      // Add new change
-      const id = `change-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-      return [...prev, { ...change, id }];
-    });
-  };
-
-  // Remove a pending change
-  const removePendingChange = (id: string) => {
-    setPendingChanges((prev) => prev.filter((c) => c.id !== id));
-  };
-
-  // Clear all pending changes
-  const clearPendingChanges = () => {
-    setPendingChanges([]);
-  };
-
   // Check if skill is used by any member
   const isSkillInUse = (skillId: string): boolean => {
     return members.some((m) => m.skills.some((s) => s.skillId === skillId));
@@ -127,6 +82,52 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
       .map((s) => s.name);
   };
 
+  const skillName = (skillId: string) =>
+    skills.find((s) => s.id === skillId)?.name ?? skillId;
+
+  const describeCycle = (cycle: string[]) => cycle.map(skillName).join(' → ');
+
+  // Rejects a parent/prerequisite choice that would make the skill depend on
+  // itself, directly or through other skills
+  const validateDependencies = () => {
+    const values = skillForm.getFieldsValue([
+      'name',
+      'parentId',
+      'prerequisites',
+    ]);
+    const id = editingSkill?.id ?? toId(values.name ?? '');
+    const candidate: Subcategory = {
+      ...(editingSkill ?? { belongsTo: [] }),
+      id,
+      name: values.name ?? id,
+      parentId: values.parentId,
+      prerequisites: values.prerequisites,
+    };
+    const cycle = findSkillCycle([
+      ...skills.filter((s) => s.id !== id),
+      candidate,
+    ]);
+    return cycle
+      ? Promise.reject(
+          new Error(`Creates a prerequisite cycle: ${describeCycle(cycle)}`),
+        )
+      : Promise.resolve();
+  };
+
+  // A new entry must not take the ID of an existing one, or staging it would
+  // replace that entry
+  const validateNewId =
+    (entries: { id: string; name: string }[], adding: boolean) =>
+    (_: unknown, name?: string) => {
+      const taken =
+        adding && name ? entries.find((e) => e.id === toId(name)) : undefined;
+      return taken
+        ? Promise.reject(
+            new Error(`ID "${taken.id}" is already used by "${taken.name}"`),
+          )
+        : Promise.resolve();
+    };
+
   // Skills Table Columns
   const skillColumns: ColumnsType<Subcategory> = [
     {
@@ -159,6 +160,23 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
         </Space>
       ),
     },
+    {
+      title: 'Builds On',
+      key: 'dependencies',
+      render: (_: any, record: Subcategory) =>
+        record.parentId || record.prerequisites?.length ? (
+          <div className='text-xs text-gray-400'>
+            {record.parentId && <div>Parent: {skillName(record.parentId)}</div>}
+            {record.prerequisites?.length ? (
+              <div>
+                Requires: {record.prerequisites.map(skillName).join(', ')}
+              </div>
+            ) : null}
+          </div>
+        ) : (
+          <span className='text-gray-600'>—</span>
+        ),
+    },
     {
       title: 'Actions',
       key: 'actions',
@@ -180,6 +198,8 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
                     name: record.name,
                     description: record.description,
                     belongsTo: record.belongsTo,
+                    parentId: record.parentId,
+                    prerequisites: record.prerequisites ?? [],
                   });
                   setSkillModalOpen(true);
                 }}
@@ -198,8 +218,9 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
                 icon={inUse ? <WarningOutlined /> : <DeleteOutlined />}
                 disabled={inUse}
                 onClick={() => {
-                  addPendingChange({
-                    type: 'delete-skill',
+                  onStageChange({
+                    entity: 'skill',
+                    action: 'delete',
                     data: record,
                     description: `Delete skill "${record.name}"`,
                   });
@@ -280,8 +301,9 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
                 icon={inUse ? <WarningOutlined /> : <DeleteOutlined />}
                 disabled={inUse}
                 onClick={() => {
-                  addPendingChange({
-                    type: 'delete-category',
+                  onStageChange({
+                    entity: 'category',
+                    action: 'delete',
                     data: record,
                     description: `Delete category "${record.name}"`,
                   });
@@ -314,8 +336,9 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
         }
         const changeDesc = changes.length > 0 ? ` (${changes.join(', ')})` : '';
 
-        addPendingChange({
-          type: 'update-category',
+        onStageChange({
+          entity: 'category',
+          action: 'update',
           data: {
             ...editingCategory,
             ...values,
@@ -324,10 +347,11 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
           description: `Update category "${values.name}"${changeDesc}`,
         });
       } else {
-        addPendingChange({
-          type: 'add-category',
+        onStageChange({
+          entity: 'category',
+          action: 'add',
           data: {
-            id: values.name.toLowerCase().replace(/\s+/g, '-'),
+            id: toId(values.name),
             ...values,
             color: colorValue,
           },
@@ -342,15 +366,23 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
 
   const handleSkillSubmit = () => {
     skillForm.validateFields().then((values) => {
+      const dependencies = {
+        parentId: values.parentId || undefined,
+        prerequisites: values.prerequisites?.length
+          ? values.prerequisites
+          : undefined,
+      };
       if (isAddingSkill) {
-        const skillId = values.name.toLowerCase().replace(/\s+/g, '-');
-        addPendingChange({
-          type: 'add-skill',
+        const skillId = toId(values.name);
+        onStageChange({
+          entity: 'skill',
+          action: 'add',
           data: {
             id: skillId,
             name: values.name,
             description: values.description || `Description for ${values.name}`,
             belongsTo: values.belongsTo || [],
+            ...dependencies,
           },
           description: `Add new skill "${values.name}"`,
         });
@@ -387,13 +419,26 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
           }
           changes.push(`categories: ${categoryChanges.join(', ')}`);
         }
+        if ((editingSkill.parentId ?? '') !== (dependencies.parentId ?? '')) {
+          changes.push(
+            `parent: ${dependencies.parentId ? skillName(dependencies.parentId) : 'none'}`,
+          );
+        }
+        if (
+          [...(editingSkill.prerequisites ?? [])].sort().join() !==
+          [...(dependencies.prerequisites ?? [])].sort().join()
+        ) {
+          changes.push('prerequisites');
+        }
         const changeDesc = changes.length > 0 ? ` (${changes.join('; ')})` : '';
 
-        addPendingChange({
-          type: 'update-skill',
+        onStageChange({
+          entity: 'skill',
+          action: 'update',
           data: {
             ...editingSkill,
             ...values,
+            ...dependencies,
           },
           description: `Update skill "${values.name}"${changeDesc}`,
         });
@@ -405,80 +450,6 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
     });
   };
 
-  // Validate pending changes for conflicts
-  const validatePendingChanges = (): { valid: boolean; errors: string[] } => {
-    const errors: string[] = [];
-
-    // Get IDs of categories being deleted
-    const deletedCategoryIds = pendingChanges
-      .filter((c) => c.type === 'delete-category')
-      .map((c) => c.data.id);
-
-    // Get IDs of skills being deleted
-    const deletedSkillIds = pendingChanges
-      .filter((c) => c.type === 'delete-skill')
-      .map((c) => c.data.id);
-
-    // Check if any added/updated skill references a deleted category
-    for (const change of pendingChanges) {
-      if (change.type === 'add-skill' || change.type === 'update-skill') {
-        const skillCategories: string[] = change.data.belongsTo || [];
-        for (const catId of skillCategories) {
-          if (deletedCategoryIds.includes(catId)) {
-            const catName =
-              categories.find((c) => c.id === catId)?.name || catId;
-            errors.push(
-              `Skill "${change.data.name}" references category "${catName}" which is being deleted`,
-            );
-          }
-        }
-      }
-    }
-
-    // Check if any updated category is also being deleted
-    for (const change of pendingChanges) {
-      if (change.type === 'update-category') {
-        if (deletedCategoryIds.includes(change.data.id)) {
-          errors.push(
-            `Category "${change.data.name}" is both being updated and deleted`,
-          );
-        }
-      }
-      if (change.type === 'update-skill') {
-        if (deletedSkillIds.includes(change.data.id)) {
-          errors.push(
-            `Skill "${change.data.name}" is both being updated and deleted`,
-          );
-        }
-      }
-    }
-
-    return { valid: errors.length === 0, errors };
-  };
-
-  const handleGeneratePR = () => {
-    if (pendingChanges.length === 0) return;
-
-    const validation = validatePendingChanges();
-    if (!validation.valid) {
-      Modal.error({
-        title: 'Invalid Changes Detected',
-        content: (
-          <ul className='list-disc pl-4'>
-            {validation.errors.map((err, i) => (
-              <li key={i} className='text-red-400'>
-                {err}
-              </li>
-            ))}
-          </ul>
-        ),
-      });
-      return;
-    }
-
-    onGenerateBatchPR(pendingChanges);
-  };
-
   return (
     <>
       <Collapse
@@ -487,82 +458,12 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
           {
             key: 'admin',
             label: (
-              <Space>
-                <span className='text-white font-semibold'>
-                  Skill & Category Administration
-                </span>
-                {pendingChanges.length > 0 && (
-                  <Badge
-                    count={pendingChanges.length}
-                    style={{ backgroundColor: '#52c41a' }}
-                  />
-                )}
-              </Space>
+              <span className='text-white font-semibold'>
+                Skill & Category Administration
+              </span>
             ),
             children: (
               <div className='space-y-6'>
-                {/* Pending Changes Section */}
-                {pendingChanges.length > 0 && (
-                  <div className='bg-green-500/10 border border-green-500/30 rounded-lg p-4'>
-                    <div className='flex justify-between items-center mb-3'>
-                      <h3 className='text-green-400 font-medium'>
-                        Pending Changes ({pendingChanges.length})
-                      </h3>
-                      <Space>
-                        <Button
-                          size='small'
-                          icon={<UndoOutlined />}
-                          onClick={clearPendingChanges}
-                        >
-                          Clear All
-                        </Button>
-                        <Button
-                          type='primary'
-                          size='small'
-                          icon={<GithubOutlined />}
-                          onClick={handleGeneratePR}
-                        >
-                          Generate PR
-                        </Button>
-                      </Space>
-                    </div>
-                    <List
-                      size='small'
-                      dataSource={pendingChanges}
-                      renderItem={(item) => (
-                        <List.Item
-                          className='!border-green-500/20'
-                          actions={[
-                            <Button
-                              key='remove'
-                              type='text'
-                              size='small'
-                              danger
-                              icon={<DeleteOutlined />}
-                              onClick={() => removePendingChange(item.id)}
-                            />,
-                          ]}
-                        >
-                          <Tag
-                            color={
-                              item.type.includes('add')
-                                ? 'green'
-                                : item.type.includes('delete')
-                                  ? 'red'
-                                  : 'blue'
-                            }
-                          >
-                            {item.type.replace('-', ' ').toUpperCase()}
-                          </Tag>
-                          <span className='text-gray-300'>
-                            {item.description}
-                          </span>
-                        </List.Item>
-                      )}
-                    />
-                  </div>
-                )}
-
                 {/* Skills Section */}
                 <div>
                   <div className='flex justify-between items-center mb-3'>
@@ -641,7 +542,10 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
           <Form.Item
             name='name'
             label='Category Name'
-            rules={[{ required: true, message: 'Please enter category name' }]}
+            rules={[
+              { required: true, message: 'Please enter category name' },
+              { validator: validateNewId(categories, !editingCategory) },
+            ]}
           >
             <Input placeholder='e.g., Machine Learning' />
           </Form.Item>
@@ -675,7 +579,10 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
           <Form.Item
             name='name'
             label='Skill Name'
-            rules={[{ required: true, message: 'Please enter skill name' }]}
+            rules={[
+              { required: true, message: 'Please enter skill name' },
+              { validator: validateNewId(skills, isAddingSkill) },
+            ]}
           >
             <Input placeholder='e.g., Computer Vision' />
           </Form.Item>
@@ -703,6 +610,40 @@ export const SkillCategoryAdmin: React.FC<SkillCategoryAdminProps> = ({
               </Space>
             </Checkbox.Group>
           </Form.Item>
+          <Form.Item
+            name='parentId'
+            label='Parent Skill'
+            tooltip='A broader skill this one specializes'
+            dependencies={['prerequisites']}
+            rules={[{ validator: validateDependencies }]}
+          >
+            <Select
+              allowClear
+              showSearch
+              optionFilterProp='label'
+              placeholder='None'
+              options={skills
+                .filter((s) => s.id !== editingSkill?.id)
+                .map((s) => ({ value: s.id, label: s.name }))}
+            />
+          </Form.Item>
+          <Form.Item
+            name='prerequisites'
+            label='Prerequisites'
+            tooltip='Skills to learn before this one'
+            dependencies={['parentId']}
+            rules={[{ validator: validateDependencies }]}
+          >
+            <Select
+              mode='multiple'
+              allowClear
+              optionFilterProp='label'
+              placeholder='None'
+              options={skills
+                .filter((s) => s.id !== editingSkill?.id)
+                .map((s) => ({ value: s.id, label: s.name }))}
+            />
+          </Form.Item>
         </Form>
       </Modal>
     </>
@@ -1,5 +1,7 @@
 export { MemberList } from './MemberList';
 export { MemberForm } from './MemberForm';
 export { PRPreviewModal } from './PRPreviewModal';
+export { DataDiffView } from './DataDiffView';
+export { ChangeSetPanel } from './ChangeSetPanel';
 export { AddSkillForm } from './AddSkillForm';
 export { SkillCategoryAdmin } from './SkillCategoryAdmin';
@@ -2,48 +2,16 @@ import React, { useEffect, useRef, useMemo, useState } from 'react';
 import * as d3 from 'd3';
 import {
   UserOutlined,
-  ArrowDownOutlined,
+  ArrowRightOutlined,
   CloseOutlined,
 } from '@ant-design/icons';
 import { Button, Avatar } from 'antd';
 
-import skillsData from '../../public/data/skillsData.json';
 import * as venn from '../utils/d3-venn';
 import type { Area } from '../utils/d3-venn';
-import type { SkillsData } from '../types/types';
+import type { LabMember, SkillCategory, SkillsData } from '../types/types';
 import { PROFICIENCY_COLORS } from '../types/types';
 
-// --- Interfaces ---
-
-interface Category {
-  id: string;
-  name: string;
-  color: string;
-  description: string;
-}
-
-interface Skill {
-  id: string;
-  name: string;
-  description: string;
-  belongsTo: string[];
-}
-
-interface MemberSkill {
-  skillId: string;
-  proficiency: 'beginner' | 'intermediate' | 'advanced' | 'expert';
-}
-
-interface Member {
-  id: string;
-  name: string;
-  role: string;
-  email: string;
-  github?: string;
-  avatar?: string;
-  skills: MemberSkill[];
-}
-
 // --- Join Member Info with Skills for Visualization ---
 interface PersonNode extends d3.SimulationNodeDatum {
   id: string; // Member ID
@@ -72,8 +40,9 @@ interface GroupNode extends d3.SimulationNodeDatum {
 }
 
 interface SkillChartProps {
-  data?: SkillsData;
-  onMemberClick?: (member: Member) => void;
+  data: SkillsData;
+  onMemberClick?: (member: LabMember) => void;
+  onCategoryClick?: (category: SkillCategory) => void;
   onSelectionChange?: (memberId: string | null) => void;
   width?: number;
   height?: number;
@@ -83,9 +52,11 @@ interface SkillChartProps {
 
 const SkillChart: React.FC<SkillChartProps> = React.memo(
   ({
+    data,
     width: propWidth,
     height: propHeight,
     onMemberClick,
+    onCategoryClick,
     onSelectionChange,
     focusMemberId,
     focusSkillId,
@@ -104,6 +75,12 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
       null,
     );
 
+    // Last known skill/group positions, used to seed the layout when the data
+    // changes so existing nodes stay put instead of re-scattering
+    const positionsRef = useRef<Map<string, { x: number; y: number }>>(
+      new Map(),
+    );
+
     // Update dimensions on mount/resize if not fixed props
     useEffect(() => {
       if (propWidth && propHeight) {
@@ -136,9 +113,9 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
       // We need to calculate the "size" of each set A, B, C, D and their intersections AB, AC, etc.
       // Size = count of skills in that set/intersection (or weighted).
 
-      const skillListRaw = skillsData.skills as Skill[];
-      const categoryList = skillsData.categories as Category[];
-      const memberList = skillsData.members as Member[];
+      const skillListRaw = data.skills;
+      const categoryList = data.categories;
+      const memberList = data.members;
 
       // Filter out skills that have no people
       const skillList = skillListRaw.filter((skill) =>
@@ -278,6 +255,7 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
           people: peopleInSkill, // No longer need x/y from pack
           r: calculatedRadius,
           groupId: setKey,
+          // Skills already on screen are moved back in the layout effect
           x: group.x + (Math.random() - 0.5) * 50,
           y: group.y + (Math.random() - 0.5) * 50,
         };
@@ -294,7 +272,19 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
         groups: groupNodes,
         vennCircles: scaledSolution,
       };
-    }, [dimensions]); // Data is static/imported, so only dimensions trigger recalc
+    }, [data, dimensions]);
+
+    // Drop the member overlay if the selected member is no longer in the data
+    useEffect(() => {
+      if (
+        selectedMemberId &&
+        !data.members.some((m) => m.id === selectedMemberId)
+      ) {
+        selectionRef.current = null;
+        setSelectedMemberId(null);
+        if (onSelectionChange) onSelectionChange(null);
+      }
+    }, [data, selectedMemberId, onSelectionChange]);
 
     useEffect(() => {
       if (!svgRef.current) return;
@@ -524,7 +514,7 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
       // --- Draw Category Foci Backgrounds (Venn Circles) ---
       // Using simple circles for background regions
       const catGroup = container.append('g').attr('class', 'categories');
-      const categoryList = skillsData.categories;
+      const categoryList = data.categories;
       const categoryMap = new Map(categoryList.map((c) => [c.id, c]));
 
       Object.entries(vennCircles).forEach(([id, circle]) => {
@@ -575,9 +565,45 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
           .style('text-transform', 'uppercase')
           .style('letter-spacing', '1px')
           .style('text-shadow', '0 2px 4px rgba(0,0,0,0.8)')
-          .text(cat.name);
+          .style('cursor', onCategoryClick ? 'pointer' : 'default')
+          .text(cat.name)
+          .on('click', (event) => {
+            if (!onCategoryClick) return;
+            event.stopPropagation();
+            onCategoryClick(cat);
+          });
       });
 
+      // Reuse the live position of every skill and group that was already on
+      // screen (skills only while they stay in the same intersection group)
+      let reused = 0;
+      const reuse = (node: { x?: number; y?: number }, key: string) => {
+        const previous = positionsRef.current.get(key);
+        if (previous) {
+          node.x = previous.x;
+          node.y = previous.y;
+          reused++;
+        }
+      };
+      groups.forEach((g) => reuse(g, `group|${g.id}`));
+      nodes.forEach((n) => reuse(n, `${n.groupId}|${n.id}`));
+
+      // Remember where everything is for the next data update
+      const rememberPositions = () => {
+        const positions = new Map<string, { x: number; y: number }>();
+        groups.forEach((g) => {
+          if (g.x !== undefined && g.y !== undefined) {
+            positions.set(`group|${g.id}`, { x: g.x, y: g.y });
+          }
+        });
+        nodes.forEach((n) => {
+          if (n.x !== undefined && n.y !== undefined) {
+            positions.set(`${n.groupId}|${n.id}`, { x: n.x, y: n.y });
+          }
+        });
+        positionsRef.current = positions;
+      };
+
       // --- 1. Group Simulation (Macro Layout) ---
       // This simulation manages the "Virtual Circles" (intersection groups).
       // They are attracted to their Venn center but push each other away.
@@ -597,6 +623,13 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
         )
         .force('charge', d3.forceManyBody().strength(-30)); // Stronger repulsion (was -20)
 
+      // An update only settles new and moved skills, it doesn't re-run the
+      // whole layout
+      if (reused > 0) {
+        groupSimulation.alpha(0.3);
+        skillSimulation.alpha(0.3);
+      }
+
       // Custom force to pull skills to their dynamic group center
       const forceClumpToGroup = (alpha: number) => {
         nodes.forEach((d) => {
@@ -650,6 +683,7 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
         forceBoundary(skillSimulation.alpha()); // Apply boundary constraints
 
         skillNodes.attr('transform', (d) => `translate(${d.x},${d.y})`);
+        rememberPositions();
 
         // Update User Links logic
         if (selectionRef.current) {
@@ -959,11 +993,13 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
         groupSimulation.stop();
       };
     }, [
+      data,
       nodes,
       groups,
       vennCircles,
       dimensions,
       onMemberClick,
+      onCategoryClick,
       focusMemberId,
       focusSkillId,
     ]);
@@ -1115,9 +1151,7 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
         {/* Selected Member Overlay */}
         {selectedMemberId &&
           (() => {
-            const member = (skillsData.members as Member[]).find(
-              (m) => m.id === selectedMemberId,
-            );
+            const member = data.members.find((m) => m.id === selectedMemberId);
             if (!member) return null;
 
             return (
@@ -1158,18 +1192,18 @@ const SkillChart: React.FC<SkillChartProps> = React.memo(
                   />
                 </div>
 
-                <div className='mt-4 flex justify-end'>
-                  <Button
-                    type='primary'
-                    size='small'
-                    className='bg-purple-600 hover:bg-purple-500 border-none flex items-center gap-1'
-                    onClick={() =>
-                      onMemberClick && onMemberClick(member as Member)
-                    }
-                  >
-                    View Details Below <ArrowDownOutlined />
-                  </Button>
-                </div>
+                {onMemberClick && (
+                  <div className='mt-4 flex justify-end'>
+                    <Button
+                      type='primary'
+                      size='small'
+                      className='bg-purple-600 hover:bg-purple-500 border-none flex items-center gap-1'
+                      onClick={() => onMemberClick(member)}
+                    >
+                      View Profile <ArrowRightOutlined />
+                    </Button>
+                  </div>
+                )}
               </div>
             );
           })()}
@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import * as d3 from 'd3';
+import type {
+  LabMember,
+  ProficiencyLevel,
+  SkillsData,
+  Subcategory,
+} from '../types/types';
+import {
+  PROFICIENCY_COLORS,
+  PROFICIENCY_LABELS,
+  PROFICIENCY_WEIGHTS,
+} from '../types/types';
+import { getSkillCategories } from '../hooks/useSkillsData';
+import { clusterOrder } from '../utils/clustering';
+
+export type HeatmapRowOrder = 'name' | 'total' | 'cluster';
+export type HeatmapColumnOrder = 'category' | 'coverage' | 'cluster';
+
+interface SkillHeatmapProps {
+  data: SkillsData;
+  rowOrder: HeatmapRowOrder;
+  columnOrder: HeatmapColumnOrder;
+}
+
+interface HoveredCell {
+  member: LabMember;
+  skill: Subcategory;
+  level: ProficiencyLevel | null;
+  x: number;
+  y: number;
+}
+
+const CELL = 22;
+const MARGIN = { top: 150, right: 20, bottom: 20, left: 150 };
+
+const SkillHeatmap: React.FC<SkillHeatmapProps> = ({
+  data,
+  rowOrder,
+  columnOrder,
+}) => {
+  const navigate = useNavigate();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hovered, setHovered] = useState<HoveredCell | null>(null);
+
+  // weights[memberIndex][skillIndex], 0 when the skill is not held
+  const weights = useMemo(
+    () =>
+      data.members.map((m) =>
+        data.skills.map((skill) => {
+          const held = m.skills.find((s) => s.skillId === skill.id);
+          return held ? PROFICIENCY_WEIGHTS[held.proficiency] : 0;
+        }),
+      ),
+    [data],
+  );
+
+  const members = useMemo(() => {
+    const indices = data.members.map((_, i) => i);
+    if (rowOrder === 'cluster') {
+      return clusterOrder(weights).map((i) => data.members[i]);
+    }
+    const total = (i: number) => weights[i].reduce((a, b) => a + b, 0);
+    return indices
+      .sort((a, b) =>
+        rowOrder === 'total'
+          ? total(b) - total(a)
+          : data.members[a].name.localeCompare(data.members[b].name),
+      )
+      .map((i) => data.members[i]);
+  }, [data, weights, rowOrder]);
+
+  const skills = useMemo(() => {
+    const coverage = (j: number) => weights.filter((row) => row[j] > 0).length;
+    const indices = data.skills.map((_, j) => j);
+    if (columnOrder === 'cluster') {
+      const columns = indices.map((j) => weights.map((row) => row[j]));
+      return clusterOrder(columns).map((j) => data.skills[j]);
+    }
+    if (columnOrder === 'coverage') {
+      return indices
+        .sort((a, b) => coverage(b) - coverage(a))
+        .map((j) => data.skills[j]);
+    }
+    // Grouped under the first of their categories, in category order
+    const categoryRank = (skill: Subcategory) =>
+      Math.min(
+        ...skill.belongsTo
+          .map((id) => data.categories.findIndex((c) => c.id === id))
+          .filter((i) => i >= 0),
+        data.categories.length,
+      );
+    return indices
+      .sort(
+        (a, b) =>
+          categoryRank(data.skills[a]) - categoryRank(data.skills[b]) ||
+          coverage(b) - coverage(a),
+      )
+      .map((j) => data.skills[j]);
+  }, [data, weights, columnOrder]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const width = MARGIN.left + skills.length * CELL + MARGIN.right;
+    const height = MARGIN.top + members.length * CELL + MARGIN.bottom;
+    svg.attr('width', width).attr('height', height);
+
+    const g = svg
+      .append('g')
+      .attr('transform', `translate(${MARGIN.left},${MARGIN.top})`);
+
+    const highlight = (row: number | null, col: number | null) => {
+      g.selectAll<SVGTextElement, unknown>('.row-label').attr('fill', (_, i) =>
+        i === row ? '#fff' : 'rgba(255,255,255,0.7)',
+      );
+      g.selectAll<SVGTextElement, unknown>('.col-label').attr('fill', (_, i) =>
+        i === col ? '#fff' : 'rgba(255,255,255,0.7)',
+      );
+    };
+
+    // Category stripes above each column, one band per category it belongs to
+    skills.forEach((skill, col) => {
+      const categories = getSkillCategories(skill, data.categories);
+      const bandWidth = (CELL - 2) / Math.max(categories.length, 1);
+      categories.forEach((cat, k) => {
+        g.append('rect')
+          .attr('x', col * CELL + 1 + k * bandWidth)
+          .attr('y', -10)
+          .attr('width', bandWidth)
+          .attr('height', 6)
+          .attr('fill', cat.color)
+          .append('title')
+          .text(cat.name);
+      });
+    });
+
+    // Column labels
+    g.selectAll('.col-label')
+      .data(skills)
+      .join('text')
+      .attr('class', 'col-label')
+      .attr(
+        'transform',
+        (_, col) => `translate(${col * CELL + CELL / 2},-16) rotate(-55)`,
+      )
+      .attr('fill', 'rgba(255,255,255,0.7)')
+      .attr('font-size', '11px')
+      .style('cursor', 'pointer')
+      .text((skill) => skill.name)
+      .on('click', (_, skill) => navigate(`/skills/${skill.id}`));
+
+    // Row labels
+    g.selectAll('.row-label')
+      .data(members)
+      .join('text')
+      .attr('class', 'row-label')
+      .attr('x', -10)
+      .attr('y', (_, row) => row * CELL + CELL / 2)
+      .attr('text-anchor', 'end')
+      .attr('dominant-baseline', 'middle')
+      .attr('fill', 'rgba(255,255,255,0.7)')
+      .attr('font-size', '12px')
+      .style('cursor', 'pointer')
+      .text((member) => member.name)
+      .on('click', (_, member) => navigate(`/members/${member.id}`));
+
+    // Cells
+    members.forEach((member, row) => {
+      skills.forEach((skill, col) => {
+        const level =
+          member.skills.find((s) => s.skillId === skill.id)?.proficiency ??
+          null;
+        g.append('rect')
+          .attr('x', col * CELL + 1)
+          .attr('y', row * CELL + 1)
+          .attr('width', CELL - 2)
+          .attr('height', CELL - 2)
+          .attr('rx', 3)
+          .attr(
+            'fill',
+            level ? PROFICIENCY_COLORS[level] : 'rgba(255,255,255,0.04)',
+          )
+          .attr('fill-opacity', level ? 0.9 : 1)
+          .on('mouseenter', function (event: MouseEvent) {
+            d3.select(this).attr('stroke', '#fff').attr('stroke-width', 1.5);
+            highlight(row, col);
+            const bounds = svgRef.current!.getBoundingClientRect();
+            setHovered({
+              member,
+              skill,
+              level,
+              x: event.clientX - bounds.left,
+              y: event.clientY - bounds.top,
+            });
+          })
+          .on('mouseleave', function () {
+            d3.select(this).attr('stroke', null);
+            highlight(null, null);
+            setHovered(null);
+          });
+      });
+    });
+  }, [data, members, skills, navigate]);
+
+  return (
+    <div className='relative overflow-x-auto'>
+      <svg ref={svgRef} />
+      {hovered && (
+        <div
+          className='absolute pointer-events-none z-10 px-3 py-2 rounded-lg bg-black/80 border border-white/10 text-sm'
+          style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+        >
+          <div className='text-white font-medium'>{hovered.member.name}</div>
+          <div className='text-gray-300'>{hovered.skill.name}</div>
+          <div
+            style={{
+              color: hovered.level
+                ? PROFICIENCY_COLORS[hovered.level]
+                : '#6b7280',
+            }}
+          >
+            {hovered.level ? PROFICIENCY_LABELS[hovered.level] : 'Not held'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SkillHeatmap;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+interface SkillLinkProps {
+  skillId: string;
+  children: React.ReactNode;
+  className?: string;
+}
+
+// Skill names link to their detail page wherever they are shown
+const SkillLink: React.FC<SkillLinkProps> = ({
+  skillId,
+  children,
+  className,
+}) => (
+  <Link
+    to={`/skills/${skillId}`}
+    className={className ?? 'text-inherit hover:underline'}
+    onClick={(e) => e.stopPropagation()}
+  >
+    {children}
+  </Link>
+);
+
+export default SkillLink;
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import * as d3 from 'd3';
+import type {
+  SkillCategory,
+  CooccurrenceGraph,
+  CooccurrenceNode,
+} from '../types/types';
+import { getCommunityColor, getSkillCategories } from '../hooks/useSkillsData';
+
+interface SkillNetworkChartProps {
+  graph: CooccurrenceGraph;
+  categories: SkillCategory[];
+  height?: number;
+}
+
+interface NetworkNode extends d3.SimulationNodeDatum {
+  id: string;
+  node: CooccurrenceNode;
+  r: number;
+}
+
+interface NetworkLink extends d3.SimulationLinkDatum<NetworkNode> {
+  weight: number;
+}
+
+interface HoveredNode {
+  node: CooccurrenceNode;
+  degree: number;
+  x: number;
+  y: number;
+}
+
+const SkillNetworkChart: React.FC<SkillNetworkChartProps> = ({
+  graph,
+  categories,
+  height = 560,
+}) => {
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hovered, setHovered] = useState<HoveredNode | null>(null);
+
+  useEffect(() => {
+    if (!svgRef.current || !containerRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const width = containerRef.current.clientWidth;
+    svg.attr('width', width).attr('height', height);
+
+    // Copies, since the simulation writes positions onto its nodes
+    const maxHolders = d3.max(graph.nodes, (n) => n.holders) ?? 1;
+    const radius = d3.scaleSqrt().domain([0, maxHolders]).range([6, 20]);
+    const nodes: NetworkNode[] = graph.nodes.map((n) => ({
+      id: n.skill.id,
+      node: n,
+      r: radius(n.holders),
+    }));
+    const links: NetworkLink[] = graph.links.map((l) => ({ ...l }));
+    const maxWeight = d3.max(links, (l) => l.weight) ?? 1;
+
+    const adjacent = new Set(
+      graph.links.flatMap((l) => [
+        `${l.source}|${l.target}`,
+        `${l.target}|${l.source}`,
+      ]),
+    );
+    const isNeighbor = (a: string, b: string) =>
+      a === b || adjacent.has(`${a}|${b}`);
+
+    const container = svg.append('g');
+    svg.call(
+      d3
+        .zoom<SVGSVGElement, unknown>()
+        .scaleExtent([0.4, 4])
+        .on('zoom', (event) => container.attr('transform', event.transform)),
+    );
+
+    const link = container
+      .append('g')
+      .selectAll('line')
+      .data(links)
+      .join('line')
+      .attr('stroke', '#fff')
+      .attr('stroke-opacity', (d) => 0.15 + 0.45 * (d.weight / maxWeight))
+      .attr('stroke-width', (d) => 1 + 4 * (d.weight / maxWeight));
+
+    const node = container
+      .append('g')
+      .selectAll<SVGGElement, NetworkNode>('g')
+      .data(nodes)
+      .join('g')
+      .style('cursor', 'pointer');
+
+    // Bridge skills get a dashed halo
+    node
+      .filter((d) => d.node.bridgeScore > 0)
+      .append('circle')
+      .attr('r', (d) => d.r + 5)
+      .attr('fill', 'none')
+      .attr('stroke', '#fff')
+      .attr('stroke-width', 1.5)
+      .attr('stroke-dasharray', '3 3');
+
+    // Fill is the community, outline the skill's primary category
+    node
+      .append('circle')
+      .attr('r', (d) => d.r)
+      .attr('fill', (d) => getCommunityColor(d.node.community))
+      .attr(
+        'stroke',
+        (d) =>
+          getSkillCategories(d.node.skill, categories)[0]?.color ?? '#6b7280',
+      )
+      .attr('stroke-width', 3);
+
+    node
+      .append('text')
+      .attr('y', (d) => d.r + 16)
+      .attr('text-anchor', 'middle')
+      .attr('fill', 'rgba(255,255,255,0.8)')
+      .attr('font-size', '11px')
+      .attr('pointer-events', 'none')
+      .text((d) => d.node.skill.name);
+
+    const highlight = (id: string | null) => {
+      node.attr('opacity', (d) => (!id || isNeighbor(id, d.id) ? 1 : 0.2));
+      link.attr('opacity', (d) =>
+        !id ||
+        (d.source as NetworkNode).id === id ||
+        (d.target as NetworkNode).id === id
+          ? 1
+          : 0.1,
+      );
+    };
+
+    node
+      .on('mouseenter', (event: MouseEvent, d) => {
+        highlight(d.id);
+        const bounds = containerRef.current!.getBoundingClientRect();
+        setHovered({
+          node: d.node,
+          degree: graph.links.filter(
+            (l) => l.source === d.id || l.target === d.id,
+          ).length,
+          x: event.clientX - bounds.left,
+          y: event.clientY - bounds.top,
+        });
+      })
+      .on('mouseleave', () => {
+        highlight(null);
+        setHovered(null);
+      })
+      .on('click', (_, d) => navigate(`/skills/${d.id}`));
+
+    const simulation = d3
+      .forceSimulation<NetworkNode>(nodes)
+      .force(
+        'link',
+        d3
+          .forceLink<NetworkNode, NetworkLink>(links)
+          .id((d) => d.id)
+          .distance((d) => 140 - 60 * (d.weight / maxWeight))
+          .strength((d) => 0.2 + 0.6 * (d.weight / maxWeight)),
+      )
+      .force('charge', d3.forceManyBody().strength(-220))
+      .force(
+        'collide',
+        d3.forceCollide<NetworkNode>((d) => d.r + 12),
+      )
+      // Keeps unlinked skills from drifting off screen
+      .force('x', d3.forceX(width / 2).strength(0.05))
+      .force('y', d3.forceY(height / 2).strength(0.05))
+      .on('tick', () => {
+        link
+          .attr('x1', (d) => (d.source as NetworkNode).x!)
+          .attr('y1', (d) => (d.source as NetworkNode).y!)
+          .attr('x2', (d) => (d.target as NetworkNode).x!)
+          .attr('y2', (d) => (d.target as NetworkNode).y!);
+        node.attr('transform', (d) => `translate(${d.x},${d.y})`);
+      });
+
+    node.call(
+      d3
+        .drag<SVGGElement, NetworkNode>()
+        .on('start', (event, d) => {
+          if (!event.active) simulation.alphaTarget(0.3).restart();
+          d.fx = d.x;
+          d.fy = d.y;
+        })
+        .on('drag', (event, d) => {
+          d.fx = event.x;
+          d.fy = event.y;
+        })
+        .on('end', (event, d) => {
+          if (!event.active) simulation.alphaTarget(0);
+          d.fx = null;
+          d.fy = null;
+        }),
+    );
+
+    return () => {
+      simulation.stop();
+    };
+  }, [graph, categories, height, navigate]);
+
+  return (
+    <div ref={containerRef} className='relative w-full'>
+      <svg ref={svgRef} className='block' />
+      {hovered && (
+        <div
+          className='absolute pointer-events-none z-10 px-3 py-2 rounded-lg bg-black/80 border border-white/10 text-sm'
+          style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+        >
+          <div className='text-white font-medium'>
+            {hovered.node.skill.name}
+          </div>
+          <div className='text-gray-300'>
+            {hovered.node.holders}{' '}
+            {hovered.node.holders === 1 ? 'holder' : 'holders'} •{' '}
+            {hovered.degree} linked {hovered.degree === 1 ? 'skill' : 'skills'}
+          </div>
+          {hovered.node.bridgeScore > 0 && (
+            <div className='text-amber-300'>
+              Bridges {hovered.node.bridgeScore} other{' '}
+              {hovered.node.bridgeScore === 1 ? 'cluster' : 'clusters'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SkillNetworkChart;
@@ -0,0 +1,146 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, Tag } from 'antd';
+import { BulbOutlined } from '@ant-design/icons';
+import { recommendNextSkills } from '../hooks/useSkillsData';
+import type {
+  LabMember,
+  ProficiencyLevel,
+  SkillGap,
+  SkillsData,
+} from '../types/types';
+import { PROFICIENCY_COLORS, PROFICIENCY_LABELS } from '../types/types';
+import GapStatusTag from './GapStatusTag';
+import SkillLink from './SkillLink';
+
+interface SkillRecommendationsCardProps {
+  data: SkillsData;
+  member: LabMember;
+  gaps: SkillGap[];
+}
+
+const levelTag = (level: ProficiencyLevel | null) =>
+  level ? (
+    <Tag
+      style={{
+        background: `${PROFICIENCY_COLORS[level]}20`,
+        borderColor: PROFICIENCY_COLORS[level],
+        color: PROFICIENCY_COLORS[level],
+      }}
+    >
+      {PROFICIENCY_LABELS[level]}
+    </Tag>
+  ) : (
+    <Tag>Not held</Tag>
+  );
+
+const SkillRecommendationsCard: React.FC<SkillRecommendationsCardProps> = ({
+  data,
+  member,
+  gaps,
+}) => {
+  const recommendations = useMemo(
+    () => recommendNextSkills(data, member, gaps),
+    [data, member, gaps],
+  );
+
+  return (
+    <Card className='glass-card'>
+      <h2 className='text-xl font-semibold text-white mb-1'>
+        <BulbOutlined className='mr-2 text-yellow-400' />
+        Recommended Next Skills
+      </h2>
+      <p className='text-gray-400 text-sm mb-4'>
+        Skills where {member.name} growing would ease the lab's gaps the most,
+        closest to what they already know first.
+      </p>
+      {recommendations.length === 0 ? (
+        <p className='text-gray-400'>
+          No skill {member.name} could grow into would change the lab's gap
+          status right now.
+        </p>
+      ) : (
+        <div className='space-y-3'>
+          {recommendations.map((rec) => (
+            <div
+              key={rec.skill.id}
+              className='p-4 rounded-lg bg-white/5 border border-white/10'
+              style={{
+                borderLeft: `4px solid ${rec.sharedCategories[0]?.color ?? '#6b7280'}`,
+              }}
+            >
+              <div className='flex flex-wrap items-center justify-between gap-2'>
+                <SkillLink
+                  skillId={rec.skill.id}
+                  className='font-medium text-white hover:underline'
+                >
+                  {rec.skill.name}
+                </SkillLink>
+                <div className='flex items-center gap-1'>
+                  {levelTag(rec.currentLevel)}
+                  <span className='text-gray-500 mr-2'>→</span>
+                  {levelTag(rec.targetLevel)}
+                </div>
+              </div>
+              <div className='flex flex-wrap items-center gap-1 mt-2 text-sm text-gray-400'>
+                Lab status
+                <GapStatusTag status={rec.statusBefore} />
+                <span className='text-gray-500 mr-2'>→</span>
+                <GapStatusTag status={rec.statusAfter} />
+              </div>
+              <div className='text-sm text-gray-400 mt-2 space-y-1'>
+                {rec.sharedCategories.length > 0 && (
+                  <div>
+                    Builds on their{' '}
+                    {rec.sharedCategories.map((c, i) => (
+                      <span key={c.id}>
+                        {i > 0 && ', '}
+                        <span style={{ color: c.color }}>{c.name}</span>
+                      </span>
+                    ))}{' '}
+                    work
+                  </div>
+                )}
+                {rec.missingPrerequisites.length > 0 && (
+                  <div>
+                    First learn{' '}
+                    {rec.missingPrerequisites.map((s, i) => (
+                      <span key={s.id}>
+                        {i > 0 && ', '}
+                        <SkillLink skillId={s.id}>{s.name}</SkillLink>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div>
+                  {rec.mentors.length > 0 ? (
+                    <>
+                      Mentors:{' '}
+                      {rec.mentors.map((m, i) => (
+                        <span key={m.id}>
+                          {i > 0 && ', '}
+                          <Link
+                            to={`/members/${m.id}`}
+                            className='text-gray-200 hover:underline'
+                          >
+                            {m.name}
+                          </Link>
+                        </span>
+                      ))}
+                    </>
+                  ) : (
+                    <span className='text-orange-400'>
+                      No advanced or expert holder in the lab to learn from
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default SkillRecommendationsCard;
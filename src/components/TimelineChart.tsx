@@ -0,0 +1,151 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import type { TimelinePoint, TimelineSeries } from '../types/types';
+
+interface TimelineChartProps {
+  series: TimelineSeries[];
+  metric: keyof Omit<TimelinePoint, 'date'>;
+  height?: number;
+}
+
+const METRIC_LABELS: Record<TimelineChartProps['metric'], string> = {
+  coverage: 'members',
+  expertCount: 'experts',
+};
+
+const TimelineChart: React.FC<TimelineChartProps> = ({
+  series,
+  metric,
+  height = 360,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const containerWidth =
+      svgRef.current.parentElement?.getBoundingClientRect().width || 800;
+    const margin = { top: 20, right: 140, bottom: 40, left: 40 };
+    const width = Math.max(containerWidth, 500);
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+
+    svg.selectAll('*').remove();
+    svg.attr('width', width).attr('height', height);
+
+    const allPoints = series.flatMap((s) => s.points);
+    if (allPoints.length === 0) return;
+
+    const g = svg
+      .append('g')
+      .attr('transform', `translate(${margin.left},${margin.top})`);
+
+    const parseDate = (date: string) => new Date(`${date}T00:00:00`);
+    const [minDate, maxDate] = d3.extent(allPoints, (p) => parseDate(p.date));
+    const xScale = d3
+      .scaleTime()
+      .domain([minDate!, maxDate!])
+      .range([0, innerWidth]);
+    const maxValue = d3.max(allPoints, (p) => p[metric]) || 1;
+    const yScale = d3
+      .scaleLinear()
+      .domain([0, maxValue])
+      .nice()
+      .range([innerHeight, 0]);
+
+    // Grid
+    g.append('g')
+      .call(
+        d3
+          .axisLeft(yScale)
+          .ticks(Math.min(maxValue, 6))
+          .tickSize(-innerWidth)
+          .tickFormat(() => ''),
+      )
+      .selectAll('line')
+      .attr('stroke', 'rgba(255,255,255,0.05)');
+    g.select('.domain').remove();
+
+    const yAxis = g
+      .append('g')
+      .call(d3.axisLeft(yScale).ticks(Math.min(maxValue, 6), 'd'));
+    yAxis.select('.domain').attr('stroke', 'rgba(255,255,255,0.2)');
+    yAxis
+      .selectAll('text')
+      .attr('fill', 'rgba(255,255,255,0.6)')
+      .attr('font-size', '10px');
+
+    const xAxis = g
+      .append('g')
+      .attr('transform', `translate(0,${innerHeight})`)
+      .call(d3.axisBottom(xScale).ticks(Math.min(6, allPoints.length)));
+    xAxis.select('.domain').attr('stroke', 'rgba(255,255,255,0.2)');
+    xAxis
+      .selectAll('text')
+      .attr('fill', 'rgba(255,255,255,0.6)')
+      .attr('font-size', '10px');
+
+    // Levels only change on history dates, so draw steps rather than slopes
+    const line = d3
+      .line<TimelinePoint>()
+      .x((p) => xScale(parseDate(p.date)))
+      .y((p) => yScale(p[metric]))
+      .curve(d3.curveStepAfter);
+
+    const paths: d3.Selection<SVGPathElement, unknown, null, undefined>[] = [];
+
+    series.forEach((s) => {
+      const path = g
+        .append('path')
+        .datum(s.points)
+        .attr('fill', 'none')
+        .attr('stroke', s.color)
+        .attr('stroke-width', 2)
+        .attr('d', line)
+        .attr('data-series', s.id)
+        .style('transition', 'opacity 0.2s ease');
+      paths.push(
+        path as d3.Selection<SVGPathElement, unknown, null, undefined>,
+      );
+
+      g.selectAll(null)
+        .data(s.points)
+        .join('circle')
+        .attr('cx', (p) => xScale(parseDate(p.date)))
+        .attr('cy', (p) => yScale(p[metric]))
+        .attr('r', 3)
+        .attr('fill', s.color)
+        .append('title')
+        .text(
+          (p) => `${s.name}\n${p.date}: ${p[metric]} ${METRIC_LABELS[metric]}`,
+        );
+
+      // Label at the end of each line
+      const last = s.points[s.points.length - 1];
+      g.append('text')
+        .attr('x', innerWidth + 6)
+        .attr('y', yScale(last[metric]))
+        .attr('dy', '0.35em')
+        .attr('fill', s.color)
+        .attr('font-size', '11px')
+        .style('cursor', 'default')
+        .text(s.name)
+        .on('mouseenter', () => {
+          paths.forEach((p) =>
+            p.attr('opacity', p.attr('data-series') === s.id ? 1 : 0.15),
+          );
+        })
+        .on('mouseleave', () => {
+          paths.forEach((p) => p.attr('opacity', 1));
+        });
+    });
+  }, [series, metric, height]);
+
+  return (
+    <div className='w-full overflow-x-auto'>
+      <svg ref={svgRef} />
+    </div>
+  );
+};
+
+export default TimelineChart;
@@ -0,0 +1,89 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { SkillsData } from '../types/types';
+import {
+  fetchSkillsData,
+  calculateSkillGaps,
+  getMemberCategoryWeights,
+} from '../hooks/useSkillsData';
+import { validateSkillsData } from '../utils/dataValidation';
+import { SkillsDataContext } from './skillsDataContext';
+
+export const SkillsDataProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [data, setData] = useState<SkillsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSkillsData(reloadToken > 0)
+      .then((json) => {
+        if (cancelled) return;
+        const report = validateSkillsData(json);
+        if (!report.usable) {
+          const first = report.issues.find((i) => i.severity === 'error');
+          throw new Error(
+            `Skills data is malformed${first ? ` at ${first.path}: ${first.message}` : ''}`,
+          );
+        }
+        setData(json);
+        setError(null);
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err.message);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadToken]);
+
+  const reload = useCallback(() => {
+    setLoading(true);
+    setReloadToken((t) => t + 1);
+  }, []);
+
+  const validation = useMemo(
+    () => (data ? validateSkillsData(data) : null),
+    [data],
+  );
+
+  const gaps = useMemo(() => (data ? calculateSkillGaps(data) : []), [data]);
+
+  const categoryWeights = useMemo(() => {
+    const weights: Record<string, Record<string, number>> = {};
+    if (!data) return weights;
+    for (const member of data.members) {
+      weights[member.id] = getMemberCategoryWeights(member, data);
+    }
+    return weights;
+  }, [data]);
+
+  const value = useMemo(
+    () => ({
+      data,
+      loading,
+      error,
+      validation,
+      setData,
+      reload,
+      gaps,
+      categoryWeights,
+    }),
+    [data, loading, error, validation, reload, gaps, categoryWeights],
+  );
+
+  return (
+    <SkillsDataContext.Provider value={value}>
+      {children}
+    </SkillsDataContext.Provider>
+  );
+};
+
+export default SkillsDataProvider;
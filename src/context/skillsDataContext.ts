@@ -0,0 +1,22 @@
+import { createContext } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { SkillsData, SkillGap, ValidationReport } from '../types/types';
+
+export interface SkillsDataContextValue {
+  data: SkillsData | null;
+  loading: boolean;
+  error: string | null;
+  // Integrity report for the current data, null until data is loaded
+  validation: ValidationReport | null;
+  // Edits made here are kept in the provider, so they survive navigation
+  setData: Dispatch<SetStateAction<SkillsData | null>>;
+  // Drop the cached response and download the data file again
+  reload: () => void;
+  // Derived selectors, recomputed only when data changes
+  gaps: SkillGap[];
+  categoryWeights: Record<string, Record<string, number>>; // memberId -> categoryId -> weight
+}
+
+export const SkillsDataContext = createContext<SkillsDataContextValue | null>(
+  null,
+);
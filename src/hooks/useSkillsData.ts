@@ -1,36 +1,65 @@
-import { useState, useEffect } from 'react';
+import { useContext } from 'react';
+import * as d3 from 'd3';
 import type {
   SkillsData,
   SkillCategory,
   LabMember,
   SkillGap,
   Subcategory,
+  GapSnapshot,
+  GapPolicy,
+  GapRule,
+  GapStatus,
+  ProficiencyLevel,
+  ResolvedGapRule,
+  MemberSkill,
+  DepartureImpact,
+  SkillBusFactor,
+  DepartureScenario,
+  Project,
+  MemberProjectFit,
+  ProjectStaffing,
+  CategoryHealth,
+  SkillComparisonRow,
+  CooccurrenceGraph,
+  CooccurrenceLink,
+  MentorshipPlan,
+  LearningGoal,
+  LearningPath,
+  SkillRecommendation,
 } from '../types/types';
+import { PROFICIENCY_LABELS, PROFICIENCY_WEIGHTS } from '../types/types';
+import { cosineDistance } from '../utils/clustering';
+import { getSkillDependencies } from '../utils/skillGraph';
+import { SkillsDataContext } from '../context/skillsDataContext';
 
 const DATA_URL = `${import.meta.env.BASE_URL}data/skillsData.json`;
 
-export function useSkillsData() {
-  const [data, setData] = useState<SkillsData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// Single in-flight/completed request shared by the whole app
+let skillsDataRequest: Promise<SkillsData> | null = null;
 
-  useEffect(() => {
-    fetch(DATA_URL)
+export function fetchSkillsData(force = false): Promise<SkillsData> {
+  if (!skillsDataRequest || force) {
+    skillsDataRequest = fetch(DATA_URL)
       .then((res) => {
         if (!res.ok) throw new Error('Failed to load skills data');
-        return res.json();
-      })
-      .then((json: SkillsData) => {
-        setData(json);
-        setLoading(false);
+        return res.json() as Promise<SkillsData>;
       })
       .catch((err) => {
-        setError(err.message);
-        setLoading(false);
+        // Don't cache failures, the next caller should retry
+        skillsDataRequest = null;
+        throw err;
       });
-  }, []);
+  }
+  return skillsDataRequest;
+}
 
-  return { data, loading, error, setData };
+export function useSkillsData() {
+  const context = useContext(SkillsDataContext);
+  if (!context) {
+    throw new Error('useSkillsData must be used within a SkillsDataProvider');
+  }
+  return context;
 }
 
 export function getSkillById(
@@ -73,10 +102,7 @@ export function getMemberCategoryWeights(
     const skill = getSkillById(data.skills, memberSkill.skillId);
     if (!skill) continue;
 
-    // Proficiency weight: expert=4, advanced=3, intermediate=2, beginner=1
-    const profWeight = { beginner: 1, intermediate: 2, advanced: 3, expert: 4 }[
-      memberSkill.proficiency
-    ];
+    const profWeight = PROFICIENCY_WEIGHTS[memberSkill.proficiency];
 
     for (const catId of skill.belongsTo) {
       weights[catId] = (weights[catId] || 0) + profWeight;
@@ -112,36 +138,888 @@ export function getMemberBlendedColor(
   return `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
 }
 
-export function calculateSkillGaps(data: SkillsData): SkillGap[] {
+// Color for a co-occurrence community, stable across renders
+export function getCommunityColor(community: number): string {
+  return d3.schemeTableau10[community % d3.schemeTableau10.length];
+}
+
+export const PROFICIENCY_ORDER: ProficiencyLevel[] = [
+  'beginner',
+  'intermediate',
+  'advanced',
+  'expert',
+];
+
+export const DEFAULT_GAP_RULE: ResolvedGapRule = {
+  minMembers: 2,
+  minExperts: 1,
+  minProficiency: 'beginner',
+  recommendations: {
+    'no-coverage': 'No coverage - consider collaboration or hiring',
+    'no-expert': 'No experts - consider training or external help',
+    limited: 'Single point of failure - expand team coverage',
+  },
+};
+
+// Layer the policy's default, category and skill rules on top of the built-in
+// defaults. A skill in several categories takes the strictest category values.
+export function resolveGapRule(
+  skill: Subcategory,
+  policy: GapPolicy = {},
+): ResolvedGapRule {
+  const apply = (base: ResolvedGapRule, rule?: GapRule): ResolvedGapRule => ({
+    minMembers: rule?.minMembers ?? base.minMembers,
+    minExperts: rule?.minExperts ?? base.minExperts,
+    minProficiency: rule?.minProficiency ?? base.minProficiency,
+    recommendations: { ...base.recommendations, ...rule?.recommendations },
+  });
+
+  const base = apply(DEFAULT_GAP_RULE, policy.default);
+
+  // Strictest values among the category rules that set them, so a category
+  // can still loosen the default rule
+  const strictest = <T>(values: (T | undefined)[], rank: (v: T) => number) => {
+    const set = values.filter((v): v is T => v !== undefined);
+    return set.length > 0
+      ? set.reduce((acc, v) => (rank(v) > rank(acc) ? v : acc))
+      : undefined;
+  };
+  const categoryRules = skill.belongsTo
+    .map((catId) => policy.categories?.[catId])
+    .filter((r): r is GapRule => r !== undefined);
+  const fromCategories = apply(base, {
+    minMembers: strictest(
+      categoryRules.map((r) => r.minMembers),
+      (v) => v,
+    ),
+    minExperts: strictest(
+      categoryRules.map((r) => r.minExperts),
+      (v) => v,
+    ),
+    minProficiency: strictest(
+      categoryRules.map((r) => r.minProficiency),
+      (v) => PROFICIENCY_ORDER.indexOf(v),
+    ),
+    recommendations: Object.assign(
+      {},
+      ...categoryRules.map((r) => r.recommendations),
+    ),
+  });
+
+  return apply(fromCategories, policy.skills?.[skill.id]);
+}
+
+// Goals at or below the member's current level are already met
+export function getOpenLearningGoal(
+  member: LabMember,
+  skillId: string,
+): LearningGoal | undefined {
+  const goal = member.learningGoals?.find((g) => g.skillId === skillId);
+  const current = member.skills.find((s) => s.skillId === skillId);
+  if (!goal) return undefined;
+  if (current && meetsProficiency(current.proficiency, goal.targetLevel)) {
+    return undefined;
+  }
+  return goal;
+}
+
+export function calculateSkillGaps(
+  data: SkillsData,
+  policy: GapPolicy | undefined = data.gapPolicy,
+): SkillGap[] {
   const gaps: SkillGap[] = [];
 
   for (const skill of data.skills) {
-    const membersWithSkill = getMembersWithSkill(data.members, skill.id);
-    const expertCount = membersWithSkill.filter((m) =>
-      m.skills.some(
-        (s) => s.skillId === skill.id && s.proficiency === 'expert',
-      ),
-    ).length;
+    const rule = resolveGapRule(skill, policy);
+    const minLevel = PROFICIENCY_ORDER.indexOf(rule.minProficiency);
 
-    const categories = getSkillCategories(skill, data.categories);
+    // Only holders at or above the rule's minimum level count as coverage
+    const countLevels = (levels: (ProficiencyLevel | undefined)[]) => {
+      const counted = levels.filter(
+        (p): p is ProficiencyLevel =>
+          p !== undefined && PROFICIENCY_ORDER.indexOf(p) >= minLevel,
+      );
+      return {
+        coverage: counted.length,
+        expertCount: counted.filter((p) => p === 'expert').length,
+      };
+    };
+    const statusOf = (coverage: number, expertCount: number): GapStatus => {
+      if (coverage === 0) return 'no-coverage';
+      if (expertCount < rule.minExperts) return 'no-expert';
+      if (coverage < rule.minMembers) return 'limited';
+      return 'healthy';
+    };
 
-    let recommendation = '';
-    if (membersWithSkill.length === 0) {
-      recommendation = 'No coverage - consider collaboration or hiring';
-    } else if (expertCount === 0) {
-      recommendation = 'No experts - consider training or external help';
-    } else if (membersWithSkill.length < 2) {
-      recommendation = 'Single point of failure - expand team coverage';
-    }
+    const { coverage, expertCount } = countLevels(
+      data.members.map(
+        (m) => m.skills.find((s) => s.skillId === skill.id)?.proficiency,
+      ),
+    );
+    const status = statusOf(coverage, expertCount);
+
+    // Planned growth: every open goal counts as reached
+    const learners = data.members.filter((m) =>
+      getOpenLearningGoal(m, skill.id),
+    );
+    const planned = countLevels(
+      data.members.map(
+        (m) =>
+          getOpenLearningGoal(m, skill.id)?.targetLevel ??
+          m.skills.find((s) => s.skillId === skill.id)?.proficiency,
+      ),
+    );
 
     gaps.push({
       skill,
-      categories,
-      currentCoverage: membersWithSkill.length,
+      categories: getSkillCategories(skill, data.categories),
+      currentCoverage: coverage,
       expertCount,
-      recommendation,
+      status,
+      rule,
+      recommendation: status === 'healthy' ? '' : rule.recommendations[status],
+      learners,
+      plannedCoverage: planned.coverage,
+      plannedExpertCount: planned.expertCount,
+      plannedStatus: statusOf(planned.coverage, planned.expertCount),
     });
   }
 
   return gaps.sort((a, b) => a.currentCoverage - b.currentCoverage);
 }
+
+// Reconstruct the lab's skills as they were on a given date from each member
+// skill's proficiency history. Entries without history are held at their
+// current level from the member's start date, or always when it is unknown
+// (lastVerified only says when the level was confirmed, not acquired).
+export function getSkillsDataAt(data: SkillsData, date: string): SkillsData {
+  return {
+    ...data,
+    members: data.members.map((member) => ({
+      ...member,
+      skills: member.skills.flatMap((memberSkill) => {
+        if (!memberSkill.history || memberSkill.history.length === 0) {
+          return member.startDate && member.startDate > date
+            ? []
+            : [memberSkill];
+        }
+        const known = memberSkill.history.filter((h) => h.date <= date);
+        if (known.length === 0) return [];
+        return [
+          {
+            ...memberSkill,
+            proficiency: known[known.length - 1].proficiency,
+          },
+        ];
+      }),
+    })),
+  };
+}
+
+// Distinct members covering a category: those holding any of its skills at
+// the skill's minimum level, and those expert in any of them
+export function countCategoryHolders(
+  data: SkillsData,
+  categoryId: string,
+): { coverage: number; expertCount: number } {
+  const skills = data.skills.filter((s) => s.belongsTo.includes(categoryId));
+  const holds = (member: LabMember, expertOnly: boolean) =>
+    skills.some((skill) => {
+      const held = member.skills.find((s) => s.skillId === skill.id);
+      if (!held) return false;
+      if (expertOnly) return held.proficiency === 'expert';
+      const rule = resolveGapRule(skill, data.gapPolicy);
+      return meetsProficiency(held.proficiency, rule.minProficiency);
+    });
+  return {
+    coverage: data.members.filter((m) => holds(m, false)).length,
+    expertCount: data.members.filter((m) => holds(m, true)).length,
+  };
+}
+
+// Every date on which some member's proficiency changed, oldest first
+export function getHistoryDates(data: SkillsData): string[] {
+  const dates = new Set<string>();
+  for (const member of data.members) {
+    for (const memberSkill of member.skills) {
+      memberSkill.history?.forEach((h) => dates.add(h.date));
+    }
+  }
+  return Array.from(dates).sort();
+}
+
+// Gap analysis at every history date, ending with the current state
+export function calculateGapTimeline(
+  data: SkillsData,
+  today: string,
+): GapSnapshot[] {
+  const dates = getHistoryDates(data).filter((d) => d < today);
+  return [...dates, today].map((date) => {
+    const snapshot = getSkillsDataAt(data, date);
+    return { date, data: snapshot, gaps: calculateSkillGaps(snapshot) };
+  });
+}
+
+// Advanced and expert holders are the ones who can carry a skill alone
+const SENIOR_LEVELS: ProficiencyLevel[] = ['advanced', 'expert'];
+
+export function getSeniorHolders(
+  members: LabMember[],
+  skillId: string,
+): LabMember[] {
+  return members.filter((m) =>
+    m.skills.some(
+      (s) => s.skillId === skillId && SENIOR_LEVELS.includes(s.proficiency),
+    ),
+  );
+}
+
+export function withoutMembers(
+  data: SkillsData,
+  memberIds: string[],
+): SkillsData {
+  return {
+    ...data,
+    members: data.members.filter((m) => !memberIds.includes(m.id)),
+  };
+}
+
+// Members without dates are treated as present for the whole period
+export function isMemberActiveOn(member: LabMember, date: string): boolean {
+  if (member.startDate && member.startDate > date) return false;
+  if (member.expectedEndDate && member.expectedEndDate <= date) return false;
+  return true;
+}
+
+export function projectSkillsData(
+  data: SkillsData,
+  scenario: DepartureScenario,
+): SkillsData {
+  const { date, removedMemberIds } = scenario;
+  return {
+    ...data,
+    members: data.members.filter(
+      (m) =>
+        !removedMemberIds.includes(m.id) &&
+        (!date || isMemberActiveOn(m, date)),
+    ),
+  };
+}
+
+const GAP_SEVERITY: Record<GapStatus, number> = {
+  healthy: 0,
+  limited: 1,
+  'no-expert': 2,
+  'no-coverage': 3,
+};
+
+export function compareGapStatus(a: GapStatus, b: GapStatus): number {
+  return GAP_SEVERITY[a] - GAP_SEVERITY[b];
+}
+
+// Skills ranked by how few senior holders stand between them and collapse
+export function calculateSkillBusFactors(data: SkillsData): SkillBusFactor[] {
+  return data.skills
+    .map((skill) => {
+      const seniorHolders = getSeniorHolders(data.members, skill.id);
+      return {
+        skill,
+        categories: getSkillCategories(skill, data.categories),
+        busFactor: seniorHolders.length,
+        seniorHolders,
+      };
+    })
+    .sort((a, b) => a.busFactor - b.busFactor);
+}
+
+// Categories with at least one advanced or expert holder among the members
+const getSeniorCategories = (data: SkillsData, members: LabMember[]) =>
+  new Set(
+    data.skills
+      .filter((skill) => getSeniorHolders(members, skill.id).length > 0)
+      .flatMap((skill) => skill.belongsTo),
+  );
+
+// What the lab loses if this member leaves on their own. Losing a skill
+// outright weighs most, then losing its only senior holder, then losing all
+// senior coverage of a category, then any worsened gap.
+export function calculateDepartureImpact(
+  data: SkillsData,
+  member: LabMember,
+  baseline: SkillGap[] = calculateSkillGaps(data),
+  categoriesBefore = getSeniorCategories(data, data.members),
+): DepartureImpact {
+  const remaining = withoutMembers(data, [member.id]);
+  const after = calculateSkillGaps(remaining);
+
+  const held = member.skills
+    .map((ms) => ({ ms, skill: getSkillById(data.skills, ms.skillId) }))
+    .filter(
+      (h): h is { ms: MemberSkill; skill: Subcategory } =>
+        h.skill !== undefined,
+    );
+
+  const lostSkills = held
+    .filter(
+      ({ skill }) =>
+        getMembersWithSkill(remaining.members, skill.id).length === 0,
+    )
+    .map(({ skill }) => skill);
+
+  const lostSeniorSkills = held
+    .filter(
+      ({ ms, skill }) =>
+        SENIOR_LEVELS.includes(ms.proficiency) &&
+        getSeniorHolders(remaining.members, skill.id).length === 0,
+    )
+    .map(({ skill }) => skill);
+
+  const categoriesAfter = getSeniorCategories(data, remaining.members);
+  const lostCategories = data.categories.filter(
+    (c) => categoriesBefore.has(c.id) && !categoriesAfter.has(c.id),
+  );
+
+  const worsenedGaps = baseline
+    .map((before) => ({
+      before,
+      after: after.find((g) => g.skill.id === before.skill.id),
+    }))
+    .filter(
+      (g): g is { before: SkillGap; after: SkillGap } =>
+        g.after !== undefined &&
+        compareGapStatus(g.after.status, g.before.status) > 0,
+    );
+
+  return {
+    member,
+    lostSkills,
+    lostSeniorSkills,
+    lostCategories,
+    worsenedGaps,
+    riskScore:
+      lostSkills.length * 4 +
+      lostSeniorSkills.length * 3 +
+      lostCategories.length * 3 +
+      worsenedGaps.length,
+  };
+}
+
+// Every member's departure impact, most critical first
+export function calculateDepartureImpacts(data: SkillsData): DepartureImpact[] {
+  const baseline = calculateSkillGaps(data);
+  const categoriesBefore = getSeniorCategories(data, data.members);
+  return data.members
+    .map((member) =>
+      calculateDepartureImpact(data, member, baseline, categoriesBefore),
+    )
+    .sort((a, b) => b.riskScore - a.riskScore);
+}
+
+export function meetsProficiency(
+  level: ProficiencyLevel,
+  minimum: ProficiencyLevel,
+): boolean {
+  return PROFICIENCY_ORDER.indexOf(level) >= PROFICIENCY_ORDER.indexOf(minimum);
+}
+
+export function scoreMemberForProject(
+  member: LabMember,
+  project: Project,
+): MemberProjectFit {
+  const fit: MemberProjectFit = {
+    member,
+    score: 0,
+    metSkillIds: [],
+    belowMinimumSkillIds: [],
+  };
+  for (const requirement of project.requirements) {
+    const held = member.skills.find((s) => s.skillId === requirement.skillId);
+    if (!held) continue;
+    if (meetsProficiency(held.proficiency, requirement.minProficiency)) {
+      fit.score += PROFICIENCY_WEIGHTS[held.proficiency];
+      fit.metSkillIds.push(requirement.skillId);
+    } else {
+      fit.belowMinimumSkillIds.push(requirement.skillId);
+    }
+  }
+  return fit;
+}
+
+// Greedy set cover: repeatedly take whoever fills the most open requirements
+// (best score on ties), then drop anyone made redundant by later picks
+export function calculateProjectStaffing(
+  data: SkillsData,
+  project: Project,
+): ProjectStaffing {
+  const fits = data.members
+    .map((member) => scoreMemberForProject(member, project))
+    .sort((a, b) => b.score - a.score);
+
+  const unfillable = project.requirements.filter(
+    (r) => !fits.some((f) => f.metSkillIds.includes(r.skillId)),
+  );
+  const open = new Set(
+    project.requirements
+      .map((r) => r.skillId)
+      .filter((id) => !unfillable.some((r) => r.skillId === id)),
+  );
+
+  const team: MemberProjectFit[] = [];
+  while (open.size > 0) {
+    let best: MemberProjectFit | null = null;
+    let bestCount = 0;
+    for (const fit of fits) {
+      if (team.includes(fit)) continue;
+      const count = fit.metSkillIds.filter((id) => open.has(id)).length;
+      if (count > bestCount) {
+        best = fit;
+        bestCount = count;
+      }
+    }
+    if (!best) break;
+    team.push(best);
+    best.metSkillIds.forEach((id) => open.delete(id));
+  }
+
+  const isRedundant = (fit: MemberProjectFit) =>
+    fit.metSkillIds.every((id) =>
+      team.some((other) => other !== fit && other.metSkillIds.includes(id)),
+    );
+  for (let i = team.length - 1; i >= 0; i--) {
+    if (isRedundant(team[i])) team.splice(i, 1);
+  }
+
+  return { project, fits, team, unfillable };
+}
+
+// Each skill scores 100 when healthy down to 0 with no coverage; the category
+// score is the average over its skills
+export function calculateCategoryHealth(
+  data: SkillsData,
+  category: SkillCategory,
+  gaps: SkillGap[] = calculateSkillGaps(data),
+): CategoryHealth {
+  const categoryGaps = gaps.filter((g) =>
+    g.skill.belongsTo.includes(category.id),
+  );
+  const worst = GAP_SEVERITY['no-coverage'];
+  const score = categoryGaps.length
+    ? Math.round(
+        categoryGaps.reduce(
+          (sum, g) => sum + (1 - GAP_SEVERITY[g.status] / worst) * 100,
+          0,
+        ) / categoryGaps.length,
+      )
+    : 0;
+
+  const contributors = data.members
+    .map((member) => ({
+      member,
+      weight: getMemberCategoryWeights(member, data)[category.id] ?? 0,
+    }))
+    .filter((c) => c.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  const overlaps = data.categories
+    .filter((other) => other.id !== category.id)
+    .map((other) => ({
+      category: other,
+      skills: data.skills.filter(
+        (s) =>
+          s.belongsTo.includes(category.id) && s.belongsTo.includes(other.id),
+      ),
+    }))
+    .filter((o) => o.skills.length > 0)
+    .sort((a, b) => b.skills.length - a.skills.length);
+
+  return {
+    category,
+    gaps: categoryGaps,
+    score,
+    contributors,
+    overlaps,
+    uncovered: categoryGaps
+      .filter((g) => g.status === 'no-coverage')
+      .map((g) => g.skill),
+  };
+}
+
+// Skills held by any of the members: unique when only one holds them,
+// complementary when several do at different levels, otherwise shared when
+// everyone holds them and partial when some are missing them
+export function compareMemberSkills(
+  data: SkillsData,
+  members: LabMember[],
+): SkillComparisonRow[] {
+  const holderCount = (row: SkillComparisonRow) =>
+    row.levels.filter((l) => l !== null).length;
+
+  return data.skills
+    .map((skill): SkillComparisonRow => {
+      const levels = members.map(
+        (m) =>
+          m.skills.find((s) => s.skillId === skill.id)?.proficiency ?? null,
+      );
+      const held = levels
+        .filter((l): l is ProficiencyLevel => l !== null)
+        .map((l) => PROFICIENCY_ORDER.indexOf(l));
+      const delta = held.length ? Math.max(...held) - Math.min(...held) : 0;
+      return {
+        skill,
+        levels,
+        kind:
+          held.length === 1
+            ? 'unique'
+            : delta > 0
+              ? 'complementary'
+              : held.length === members.length
+                ? 'shared'
+                : 'partial',
+        delta,
+      };
+    })
+    .filter((row) => holderCount(row) > 0)
+    .sort((a, b) => holderCount(b) - holderCount(a) || b.delta - a.delta);
+}
+
+// Skills linked by how many members hold both. Communities come from weighted
+// label propagation; a bridge skill links into communities other than its own.
+export function calculateSkillCooccurrence(
+  data: SkillsData,
+  minWeight = 1,
+): CooccurrenceGraph {
+  const links: CooccurrenceLink[] = [];
+  data.skills.forEach((a, i) => {
+    data.skills.slice(i + 1).forEach((b) => {
+      const weight = data.members.filter(
+        (m) =>
+          m.skills.some((s) => s.skillId === a.id) &&
+          m.skills.some((s) => s.skillId === b.id),
+      ).length;
+      if (weight >= minWeight) {
+        links.push({ source: a.id, target: b.id, weight });
+      }
+    });
+  });
+
+  const neighbors = new Map<string, { id: string; weight: number }[]>(
+    data.skills.map((s) => [s.id, []]),
+  );
+  for (const link of links) {
+    neighbors.get(link.source)!.push({ id: link.target, weight: link.weight });
+    neighbors.get(link.target)!.push({ id: link.source, weight: link.weight });
+  }
+
+  const labels = new Map(data.skills.map((s, i) => [s.id, i]));
+  for (let round = 0; round < 20; round++) {
+    let changed = false;
+    for (const skill of data.skills) {
+      const scores = new Map<number, number>();
+      for (const n of neighbors.get(skill.id)!) {
+        const label = labels.get(n.id)!;
+        scores.set(label, (scores.get(label) ?? 0) + n.weight);
+      }
+      if (scores.size === 0) continue;
+      // Strongest label wins; ties go to the lowest label so runs are stable
+      const [best] = [...scores.entries()].sort(
+        (x, y) => y[1] - x[1] || x[0] - y[0],
+      )[0];
+      if (best !== labels.get(skill.id)) {
+        labels.set(skill.id, best);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  // Renumber communities 0..n-1, largest first
+  const sizes = new Map<number, number>();
+  labels.forEach((label) => sizes.set(label, (sizes.get(label) ?? 0) + 1));
+  const ranked = [...sizes.entries()]
+    .sort((x, y) => y[1] - x[1] || x[0] - y[0])
+    .map(([label]) => label);
+
+  const nodes = data.skills.map((skill) => {
+    const community = ranked.indexOf(labels.get(skill.id)!);
+    const linked = new Set(
+      neighbors
+        .get(skill.id)!
+        .map((n) => ranked.indexOf(labels.get(n.id)!))
+        .filter((c) => c !== community),
+    );
+    return {
+      skill,
+      holders: getMembersWithSkill(data.members, skill.id).length,
+      community,
+      bridgeScore: linked.size,
+    };
+  });
+
+  return { nodes, links };
+}
+
+const MENTEE_LEVELS: ProficiencyLevel[] = ['beginner', 'intermediate'];
+
+// Each extra mentee costs a mentor this much affinity, so load spreads out
+const MENTOR_LOAD_PENALTY = 0.25;
+
+// Pairs beginner/intermediate holders with advanced/expert holders of the same
+// skill. Skills with the fewest mentors are matched first so scarce mentors
+// are not used up elsewhere; among mentors with spare capacity the best
+// affinity, less the load penalty, wins.
+export function suggestMentorPairings(
+  data: SkillsData,
+  maxMenteesPerMentor = 3,
+): MentorshipPlan {
+  const vectors = new Map(
+    data.members.map((m) => {
+      const weights = getMemberCategoryWeights(m, data);
+      return [m.id, data.categories.map((c) => weights[c.id] ?? 0)];
+    }),
+  );
+  const affinity = (a: LabMember, b: LabMember) =>
+    1 - cosineDistance(vectors.get(a.id)!, vectors.get(b.id)!);
+  const levelOf = (member: LabMember, skillId: string) =>
+    member.skills.find((s) => s.skillId === skillId)!.proficiency;
+
+  const needs = data.skills
+    .map((skill) => {
+      const holders = getMembersWithSkill(data.members, skill.id);
+      return {
+        skill,
+        mentors: holders.filter((m) =>
+          SENIOR_LEVELS.includes(levelOf(m, skill.id)),
+        ),
+        mentees: holders
+          .filter((m) => MENTEE_LEVELS.includes(levelOf(m, skill.id)))
+          // Beginners first, they gain the most
+          .sort(
+            (a, b) =>
+              PROFICIENCY_ORDER.indexOf(levelOf(a, skill.id)) -
+              PROFICIENCY_ORDER.indexOf(levelOf(b, skill.id)),
+          ),
+      };
+    })
+    .filter((n) => n.mentees.length > 0)
+    .sort((a, b) => a.mentors.length - b.mentors.length);
+
+  const plan: MentorshipPlan = { pairings: [], unmatched: [], load: {} };
+  for (const { skill, mentors, mentees } of needs) {
+    for (const mentee of mentees) {
+      const candidates = mentors
+        .filter(
+          (m) =>
+            m.id !== mentee.id && (plan.load[m.id] ?? 0) < maxMenteesPerMentor,
+        )
+        .map((m) => ({
+          mentor: m,
+          affinity: affinity(m, mentee),
+          load: plan.load[m.id] ?? 0,
+        }))
+        .sort(
+          (a, b) =>
+            b.affinity -
+              MENTOR_LOAD_PENALTY * b.load -
+              (a.affinity - MENTOR_LOAD_PENALTY * a.load) ||
+            PROFICIENCY_ORDER.indexOf(levelOf(b.mentor, skill.id)) -
+              PROFICIENCY_ORDER.indexOf(levelOf(a.mentor, skill.id)) ||
+            a.mentor.name.localeCompare(b.mentor.name),
+        );
+
+      const best = candidates[0];
+      if (!best) {
+        plan.unmatched.push({
+          skill,
+          mentee,
+          reason: mentors.some((m) => m.id !== mentee.id)
+            ? 'mentors-at-capacity'
+            : 'no-senior-holder',
+        });
+        continue;
+      }
+
+      const mentorLevel = levelOf(best.mentor, skill.id);
+      const menteeLevel = levelOf(mentee, skill.id);
+      const reasons = [
+        `${PROFICIENCY_LABELS[mentorLevel]} mentoring ${PROFICIENCY_LABELS[menteeLevel].toLowerCase()}`,
+        `${Math.round(best.affinity * 100)}% category overlap`,
+      ];
+      if (mentors.length === 1) {
+        reasons.push('only senior holder');
+      } else if (best.load > 0) {
+        reasons.push(
+          `already mentoring ${best.load} ${best.load === 1 ? 'other' : 'others'}`,
+        );
+      }
+
+      plan.pairings.push({
+        skill,
+        mentor: best.mentor,
+        mentorLevel,
+        mentee,
+        menteeLevel,
+        affinity: best.affinity,
+        rationale: reasons.join('; '),
+      });
+      plan.load[best.mentor.id] = best.load + 1;
+    }
+  }
+
+  return plan;
+}
+
+// Dependencies held at this level or above need not be learned again
+const PREREQUISITE_LEVEL: ProficiencyLevel = 'intermediate';
+
+// Depth-first walk from the target through unmet dependencies, so every step
+// comes after the skills it builds on
+export function calculateLearningPath(
+  data: SkillsData,
+  member: LabMember,
+  targetSkillId: string,
+): LearningPath | null {
+  const target = getSkillById(data.skills, targetSkillId);
+  if (!target) return null;
+
+  const levelOf = (skillId: string) =>
+    member.skills.find((s) => s.skillId === skillId)?.proficiency ?? null;
+  const isMet = (skillId: string) => {
+    const level = levelOf(skillId);
+    return level !== null && meetsProficiency(level, PREREQUISITE_LEVEL);
+  };
+
+  const path: LearningPath = { target, steps: [], alreadyMet: [] };
+  const visited = new Set<string>();
+  const unlocks = new Map<string, Subcategory[]>();
+
+  const visit = (skill: Subcategory) => {
+    if (visited.has(skill.id)) return;
+    visited.add(skill.id);
+    for (const depId of getSkillDependencies(skill)) {
+      const dep = getSkillById(data.skills, depId);
+      if (!dep) continue;
+      unlocks.set(dep.id, [...(unlocks.get(dep.id) ?? []), skill]);
+      if (isMet(dep.id)) {
+        if (!path.alreadyMet.includes(dep)) path.alreadyMet.push(dep);
+      } else {
+        visit(dep);
+      }
+    }
+    path.steps.push({
+      skill,
+      currentLevel: levelOf(skill.id),
+      unlocks: [],
+    });
+  };
+  visit(target);
+
+  for (const step of path.steps) {
+    step.unlocks = unlocks.get(step.skill.id) ?? [];
+  }
+  return path;
+}
+
+// Level that would make the member count for the skill's gap: the rule's
+// minimum first, then expert when the skill lacks experts, else one step up
+function getRecommendedLevel(
+  current: ProficiencyLevel | null,
+  gap: SkillGap,
+): ProficiencyLevel | null {
+  if (!current || !meetsProficiency(current, gap.rule.minProficiency)) {
+    return gap.rule.minProficiency;
+  }
+  if (gap.expertCount < gap.rule.minExperts) return 'expert';
+  return PROFICIENCY_ORDER[PROFICIENCY_ORDER.indexOf(current) + 1] ?? null;
+}
+
+// Skills the member could grow into that would ease the lab's gaps the most,
+// favouring those in categories the member already works in. Each missing
+// prerequisite costs half a point and each level beyond the first a quarter,
+// so nearby skills rank first.
+export function recommendNextSkills(
+  data: SkillsData,
+  member: LabMember,
+  gaps: SkillGap[] = calculateSkillGaps(data),
+  limit = 5,
+): SkillRecommendation[] {
+  const weights = getMemberCategoryWeights(member, data);
+  const totalWeight = Object.values(weights).reduce((a, b) => a + b, 0);
+
+  const recommendations: SkillRecommendation[] = [];
+  for (const gap of gaps) {
+    const { skill } = gap;
+    const currentLevel =
+      member.skills.find((s) => s.skillId === skill.id)?.proficiency ?? null;
+    const targetLevel = getRecommendedLevel(currentLevel, gap);
+    if (!targetLevel) continue;
+
+    // Re-run the gap rule for this skill with the member at the target level
+    const grown: MemberSkill = { skillId: skill.id, proficiency: targetLevel };
+    const [after] = calculateSkillGaps({
+      ...data,
+      skills: [skill],
+      members: data.members.map((m) =>
+        m.id === member.id
+          ? {
+              ...m,
+              skills: [
+                ...m.skills.filter((s) => s.skillId !== skill.id),
+                grown,
+              ],
+            }
+          : m,
+      ),
+    });
+    const riskReduction = GAP_SEVERITY[gap.status] - GAP_SEVERITY[after.status];
+    if (riskReduction <= 0) continue;
+
+    const sharedCategories = gap.categories.filter((c) => weights[c.id] > 0);
+    const proximity =
+      totalWeight === 0
+        ? 0
+        : sharedCategories.reduce((sum, c) => sum + weights[c.id], 0) /
+          totalWeight;
+    // Not holding the skill counts as one level below beginner
+    const levelsToClimb =
+      PROFICIENCY_ORDER.indexOf(targetLevel) -
+      (currentLevel ? PROFICIENCY_ORDER.indexOf(currentLevel) : -1);
+    const path = calculateLearningPath(data, member, skill.id);
+    const missingPrerequisites = (path?.steps ?? [])
+      .map((step) => step.skill)
+      .filter((s) => s.id !== skill.id);
+
+    recommendations.push({
+      skill,
+      currentLevel,
+      targetLevel,
+      statusBefore: gap.status,
+      statusAfter: after.status,
+      riskReduction,
+      proximity,
+      sharedCategories,
+      missingPrerequisites,
+      mentors: getSeniorHolders(data.members, skill.id)
+        .filter((m) => m.id !== member.id)
+        .sort(
+          (a, b) =>
+            PROFICIENCY_WEIGHTS[
+              b.skills.find((s) => s.skillId === skill.id)!.proficiency
+            ] -
+            PROFICIENCY_WEIGHTS[
+              a.skills.find((s) => s.skillId === skill.id)!.proficiency
+            ],
+        ),
+      score:
+        riskReduction +
+        proximity -
+        0.5 * missingPrerequisites.length -
+        0.25 * (levelsToClimb - 1),
+    });
+  }
+
+  return recommendations
+    .sort(
+      (a, b) => b.score - a.score || a.skill.name.localeCompare(b.skill.name),
+    )
+    .slice(0, limit);
+}
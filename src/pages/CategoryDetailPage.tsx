@@ -0,0 +1,248 @@
+import React, { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Avatar, Button, Card, Empty, Progress, Spin, Table } from 'antd';
+import {
+  ArrowLeftOutlined,
+  UserOutlined,
+  WarningOutlined,
+} from '@ant-design/icons';
+import {
+  useSkillsData,
+  calculateCategoryHealth,
+  getCategoryById,
+} from '../hooks/useSkillsData';
+import type { SkillGap } from '../types/types';
+import GapStatusTag from '../components/GapStatusTag';
+import SkillLink from '../components/SkillLink';
+
+const scoreColor = (score: number) =>
+  score >= 75 ? '#22c55e' : score >= 40 ? '#f59e0b' : '#ef4444';
+
+export const CategoryDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data, loading, error, gaps } = useSkillsData();
+
+  const category = data && id ? getCategoryById(data.categories, id) : null;
+  const health = useMemo(
+    () =>
+      data && category ? calculateCategoryHealth(data, category, gaps) : null,
+    [data, category, gaps],
+  );
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Spin size='large' tip='Loading category...' fullscreen />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Empty description={error || 'No data available'} />
+      </div>
+    );
+  }
+
+  if (!category || !health) {
+    return (
+      <div className='flex flex-col items-center justify-center h-96 gap-4'>
+        <Empty description={`No category with id "${id}"`} />
+        <Link to='/overview'>
+          <Button icon={<ArrowLeftOutlined />}>Back to Overview</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const columns = [
+    {
+      title: 'Skill',
+      key: 'skill',
+      render: (_: unknown, record: SkillGap) => (
+        <SkillLink
+          skillId={record.skill.id}
+          className='font-medium text-white hover:underline'
+        >
+          {record.skill.name}
+        </SkillLink>
+      ),
+    },
+    {
+      title: 'Coverage',
+      dataIndex: 'currentCoverage',
+      key: 'coverage',
+      sorter: (a: SkillGap, b: SkillGap) =>
+        a.currentCoverage - b.currentCoverage,
+      render: (count: number, record: SkillGap) => (
+        <span className='text-gray-300'>
+          {count} / {record.rule.minMembers}
+        </span>
+      ),
+    },
+    {
+      title: 'Experts',
+      dataIndex: 'expertCount',
+      key: 'experts',
+      sorter: (a: SkillGap, b: SkillGap) => a.expertCount - b.expertCount,
+    },
+    {
+      title: 'Status',
+      key: 'status',
+      render: (_: unknown, record: SkillGap) => (
+        <GapStatusTag status={record.status} />
+      ),
+    },
+  ];
+
+  return (
+    <div className='space-y-8'>
+      {/* Header */}
+      <Card className='glass-card'>
+        <div className='flex flex-wrap items-center justify-between gap-6'>
+          <div className='min-w-0'>
+            <h1
+              className='text-3xl font-bold mb-2'
+              style={{ color: category.color }}
+            >
+              {category.name}
+            </h1>
+            {category.description && (
+              <p className='text-gray-400 max-w-2xl'>{category.description}</p>
+            )}
+            <p className='text-gray-500 text-sm mt-2'>
+              {health.gaps.length} skills • {health.contributors.length}{' '}
+              contributing members
+            </p>
+          </div>
+          <div className='text-center'>
+            <Progress
+              type='dashboard'
+              percent={health.score}
+              strokeColor={scoreColor(health.score)}
+              format={(p) => <span className='text-white'>{p}</span>}
+            />
+            <div className='text-gray-400 text-sm'>Health Score</div>
+          </div>
+        </div>
+      </Card>
+
+      <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+        {/* Top contributors */}
+        <Card className='glass-card'>
+          <h2 className='text-xl font-semibold text-white mb-4'>
+            Top Contributors
+          </h2>
+          {health.contributors.length === 0 ? (
+            <Empty description='Nobody contributes to this category yet' />
+          ) : (
+            <div className='space-y-2'>
+              {health.contributors.slice(0, 5).map(({ member, weight }) => (
+                <Link
+                  key={member.id}
+                  to={`/members/${member.id}`}
+                  className='flex items-center gap-3 p-2 rounded-lg bg-white/5 hover:bg-white/10 transition-colors'
+                >
+                  <Avatar
+                    size={32}
+                    icon={<UserOutlined />}
+                    src={member.avatar}
+                  />
+                  <div className='flex-1 min-w-0'>
+                    <div className='text-white'>{member.name}</div>
+                    <div className='text-xs text-gray-400'>{member.role}</div>
+                  </div>
+                  <Progress
+                    percent={(weight / health.contributors[0].weight) * 100}
+                    showInfo={false}
+                    size='small'
+                    strokeColor={category.color}
+                    className='!w-24 !m-0'
+                  />
+                </Link>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Overlaps */}
+        <Card className='glass-card'>
+          <h2 className='text-xl font-semibold text-white mb-4'>
+            Overlap With Other Categories
+          </h2>
+          {health.overlaps.length === 0 ? (
+            <p className='text-gray-400'>
+              No skills are shared with other categories.
+            </p>
+          ) : (
+            <div className='space-y-3'>
+              {health.overlaps.map(({ category: other, skills }) => (
+                <div
+                  key={other.id}
+                  className='p-3 rounded-lg bg-white/5'
+                  style={{ borderLeft: `4px solid ${other.color}` }}
+                >
+                  <Link
+                    to={`/categories/${other.id}`}
+                    className='font-medium hover:underline'
+                    style={{ color: other.color }}
+                  >
+                    {other.name}
+                  </Link>
+                  <span className='text-gray-500 text-sm ml-2'>
+                    {skills.length} shared
+                  </span>
+                  <div className='text-sm text-gray-300 mt-1'>
+                    {skills.map((skill, i) => (
+                      <span key={skill.id}>
+                        {i > 0 && ', '}
+                        <SkillLink skillId={skill.id}>{skill.name}</SkillLink>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {/* Uncovered skills */}
+      {health.uncovered.length > 0 && (
+        <Card className='glass-card'>
+          <h2 className='text-xl font-semibold text-white mb-4'>
+            <WarningOutlined className='mr-2 text-red-400' />
+            Uncovered Skills
+          </h2>
+          <div className='flex flex-wrap gap-2'>
+            {health.uncovered.map((skill) => (
+              <SkillLink
+                key={skill.id}
+                skillId={skill.id}
+                className='px-3 py-1 rounded-full bg-red-500/10 border border-red-500/30 text-red-300 hover:bg-red-500/20'
+              >
+                {skill.name}
+              </SkillLink>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Skills */}
+      <Card className='glass-card'>
+        <h2 className='text-xl font-semibold text-white mb-4'>Skills</h2>
+        <Table
+          dataSource={health.gaps}
+          columns={columns}
+          rowKey={(record) => record.skill.id}
+          pagination={{ pageSize: 10 }}
+          style={{ background: 'transparent' }}
+          scroll={{ x: 'max-content' }}
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default CategoryDetailPage;
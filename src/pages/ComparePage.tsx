@@ -0,0 +1,291 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  Button,
+  Card,
+  Empty,
+  Segmented,
+  Select,
+  Spin,
+  Table,
+  Tag,
+  message,
+} from 'antd';
+import { LinkOutlined } from '@ant-design/icons';
+import * as d3 from 'd3';
+import { useSkillsData, compareMemberSkills } from '../hooks/useSkillsData';
+import type {
+  ProficiencyLevel,
+  RadarSeries,
+  SkillComparisonRow,
+  SkillOverlapKind,
+} from '../types/types';
+import { PROFICIENCY_COLORS, PROFICIENCY_LABELS } from '../types/types';
+import CategoryRadarChart from '../components/CategoryRadarChart';
+import SkillLink from '../components/SkillLink';
+
+const MAX_MEMBERS = 4;
+
+const KIND_LABELS: Record<SkillOverlapKind, string> = {
+  shared: 'Shared',
+  complementary: 'Complementary',
+  partial: 'Missing for Some',
+  unique: 'Unique',
+};
+
+const KIND_COLORS: Record<SkillOverlapKind, string> = {
+  shared: 'green',
+  complementary: 'blue',
+  partial: 'gold',
+  unique: 'purple',
+};
+
+export const ComparePage: React.FC = () => {
+  const { data, loading, error, categoryWeights } = useSkillsData();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [messageApi, contextHolder] = message.useMessage();
+  const [kindFilter, setKindFilter] = useState<SkillOverlapKind | 'all'>('all');
+
+  // Selection lives in the URL (?members=a,b) so a comparison can be shared
+  const selectedIds = useMemo(
+    () =>
+      (searchParams.get('members') ?? '')
+        .split(',')
+        .filter(Boolean)
+        .slice(0, MAX_MEMBERS),
+    [searchParams],
+  );
+  const members = useMemo(
+    () =>
+      data
+        ? selectedIds
+            .map((id) => data.members.find((m) => m.id === id))
+            .filter((m) => m !== undefined)
+        : [],
+    [data, selectedIds],
+  );
+  const rows = useMemo(
+    () =>
+      data && members.length >= 2 ? compareMemberSkills(data, members) : [],
+    [data, members],
+  );
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Spin size='large' tip='Loading members...' fullscreen />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Empty description={error || 'No data available'} />
+      </div>
+    );
+  }
+
+  const color = d3.scaleOrdinal<string>(d3.schemeTableau10);
+  const radarSeries: RadarSeries[] = members.map((m) => ({
+    id: m.id,
+    name: m.name,
+    color: color(m.id),
+    values: categoryWeights[m.id] ?? {},
+  }));
+
+  const setSelection = (ids: string[]) => {
+    setSearchParams(ids.length ? { members: ids.join(',') } : {}, {
+      replace: true,
+    });
+  };
+
+  const copyLink = () => {
+    void navigator.clipboard.writeText(window.location.href);
+    void messageApi.success('Comparison link copied to clipboard!');
+  };
+
+  const levelCell = (level: ProficiencyLevel | null) =>
+    level ? (
+      <Tag
+        style={{
+          background: `${PROFICIENCY_COLORS[level]}20`,
+          borderColor: PROFICIENCY_COLORS[level],
+          color: PROFICIENCY_COLORS[level],
+        }}
+      >
+        {PROFICIENCY_LABELS[level]}
+      </Tag>
+    ) : (
+      <span className='text-gray-600'>—</span>
+    );
+
+  const columns = [
+    {
+      title: 'Skill',
+      key: 'skill',
+      fixed: 'left' as const,
+      render: (_: unknown, record: SkillComparisonRow) => (
+        <SkillLink
+          skillId={record.skill.id}
+          className='font-medium text-white hover:underline'
+        >
+          {record.skill.name}
+        </SkillLink>
+      ),
+    },
+    ...members.map((member, i) => ({
+      title: (
+        <Link to={`/members/${member.id}`} style={{ color: color(member.id) }}>
+          {member.name}
+        </Link>
+      ),
+      key: member.id,
+      render: (_: unknown, record: SkillComparisonRow) =>
+        levelCell(record.levels[i]),
+    })),
+    {
+      title: 'Overlap',
+      key: 'kind',
+      render: (_: unknown, record: SkillComparisonRow) => (
+        <Tag color={KIND_COLORS[record.kind]}>{KIND_LABELS[record.kind]}</Tag>
+      ),
+    },
+    {
+      title: 'Delta',
+      dataIndex: 'delta',
+      key: 'delta',
+      sorter: (a: SkillComparisonRow, b: SkillComparisonRow) =>
+        a.delta - b.delta,
+      render: (delta: number, record: SkillComparisonRow) =>
+        record.kind === 'unique' ? (
+          <span className='text-gray-600'>—</span>
+        ) : (
+          <span className={delta >= 2 ? 'text-orange-400' : 'text-gray-300'}>
+            {delta === 0
+              ? 'Same level'
+              : `${delta} level${delta > 1 ? 's' : ''}`}
+          </span>
+        ),
+    },
+  ];
+
+  const counts = {
+    shared: rows.filter((r) => r.kind === 'shared').length,
+    complementary: rows.filter((r) => r.kind === 'complementary').length,
+    partial: rows.filter((r) => r.kind === 'partial').length,
+    unique: rows.filter((r) => r.kind === 'unique').length,
+  };
+
+  return (
+    <div className='space-y-8'>
+      {contextHolder}
+      {/* Header */}
+      <div className='text-center'>
+        <h1 className='text-4xl font-bold bg-gradient-to-r from-fuchsia-400 via-purple-400 to-indigo-400 bg-clip-text text-transparent mb-4'>
+          Compare Members
+        </h1>
+        <p className='text-gray-400 max-w-2xl mx-auto'>
+          Pick two to four members to see where their skills overlap and where
+          they complement each other. The page link keeps the selection.
+        </p>
+      </div>
+
+      <Card className='glass-card'>
+        <div className='flex flex-wrap items-center gap-3'>
+          <Select
+            mode='multiple'
+            maxCount={MAX_MEMBERS}
+            placeholder='Select members to compare'
+            value={members.map((m) => m.id)}
+            onChange={setSelection}
+            className='min-w-[280px] flex-1'
+            optionFilterProp='label'
+            options={data.members.map((m) => ({ value: m.id, label: m.name }))}
+          />
+          <Button
+            icon={<LinkOutlined />}
+            onClick={copyLink}
+            disabled={members.length < 2}
+          >
+            Copy Link
+          </Button>
+        </div>
+      </Card>
+
+      {members.length < 2 ? (
+        <Card className='glass-card'>
+          <Empty description='Select at least two members to compare' />
+        </Card>
+      ) : (
+        <>
+          <Card className='glass-card !mb-10'>
+            <h2 className='text-xl font-semibold text-white mb-4'>
+              Category Profiles
+            </h2>
+            <div className='flex flex-col md:flex-row items-center gap-6'>
+              <CategoryRadarChart
+                categories={data.categories}
+                series={radarSeries}
+                size={420}
+              />
+              <div className='space-y-2'>
+                {radarSeries.map((s) => (
+                  <div key={s.id} className='flex items-center gap-2'>
+                    <span
+                      className='w-3 h-3 rounded-full inline-block'
+                      style={{ backgroundColor: s.color }}
+                    />
+                    <span className='text-gray-300'>{s.name}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </Card>
+
+          <Card className='glass-card'>
+            <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+              <h2 className='text-xl font-semibold text-white'>Skill Matrix</h2>
+              <Segmented
+                value={kindFilter}
+                onChange={(v) => setKindFilter(v as SkillOverlapKind | 'all')}
+                options={[
+                  { label: `All (${rows.length})`, value: 'all' },
+                  { label: `Shared (${counts.shared})`, value: 'shared' },
+                  {
+                    label: `Complementary (${counts.complementary})`,
+                    value: 'complementary',
+                  },
+                  {
+                    label: `Missing for Some (${counts.partial})`,
+                    value: 'partial',
+                  },
+                  { label: `Unique (${counts.unique})`, value: 'unique' },
+                ]}
+              />
+            </div>
+            <p className='text-gray-400 text-sm mb-4'>
+              Shared skills are held by everyone selected at the same level and
+              complementary skills by several at different levels, so one can
+              help another grow. Skills missing for some are held by several at
+              the same level but not by everyone, unique skills by only one
+              member. Delta is the gap between the strongest and weakest holder.
+            </p>
+            <Table
+              dataSource={rows.filter(
+                (r) => kindFilter === 'all' || r.kind === kindFilter,
+              )}
+              columns={columns}
+              rowKey={(record) => record.skill.id}
+              pagination={{ pageSize: 15 }}
+              style={{ background: 'transparent' }}
+              scroll={{ x: 'max-content' }}
+            />
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparePage;
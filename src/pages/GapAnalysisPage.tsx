@@ -1,4 +1,5 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import {
   Table,
   Tag,
@@ -9,35 +10,81 @@ import {
   Statistic,
   Empty,
   Spin,
+  Tooltip,
 } from 'antd';
 import {
   WarningOutlined,
   CheckCircleOutlined,
   ExclamationCircleOutlined,
+  UserDeleteOutlined,
 } from '@ant-design/icons';
-import { useSkillsData, calculateSkillGaps } from '../hooks/useSkillsData';
-import type { SkillGap } from '../types/types';
+import {
+  useSkillsData,
+  calculateDepartureImpacts,
+  calculateSkillBusFactors,
+  calculateSkillGaps,
+  projectSkillsData,
+} from '../hooks/useSkillsData';
+import type {
+  SkillGap,
+  DepartureImpact,
+  Subcategory,
+  SkillCategory,
+  DepartureScenario,
+} from '../types/types';
+import { PROFICIENCY_LABELS } from '../types/types';
 import GapDistributionChart from '../components/GapDistributionChart';
+import GapStatusTag from '../components/GapStatusTag';
+import SkillLink from '../components/SkillLink';
+import DepartureSimulator from '../components/DepartureSimulator';
 
 export const GapAnalysisPage: React.FC = () => {
-  const { data, loading, error } = useSkillsData();
+  const { data, loading, error, gaps: currentGaps } = useSkillsData();
+  const [simulating, setSimulating] = useState(false);
+  const [scenario, setScenario] = useState<DepartureScenario>({
+    removedMemberIds: [],
+  });
 
-  const gaps = useMemo(() => {
-    if (!data) return [];
-    return calculateSkillGaps(data);
-  }, [data]);
+  // While simulating, everything below reads the projected lab instead
+  const projectedData = useMemo(
+    () => (data ? projectSkillsData(data, scenario) : null),
+    [data, scenario],
+  );
+  const activeData = simulating ? projectedData : data;
+  const gaps = useMemo(
+    () =>
+      simulating && projectedData
+        ? calculateSkillGaps(projectedData)
+        : currentGaps,
+    [simulating, projectedData, currentGaps],
+  );
 
   const stats = useMemo(() => {
     if (!gaps.length) return { noExpert: 0, noCoverage: 0, healthy: 0 };
     return {
-      noCoverage: gaps.filter((g) => g.currentCoverage === 0).length,
-      noExpert: gaps.filter((g) => g.currentCoverage > 0 && g.expertCount === 0)
-        .length,
-      healthy: gaps.filter((g) => g.expertCount > 0 && g.currentCoverage >= 2)
-        .length,
+      noCoverage: gaps.filter((g) => g.status === 'no-coverage').length,
+      noExpert: gaps.filter((g) => g.status === 'no-expert').length,
+      healthy: gaps.filter((g) => g.status === 'healthy').length,
     };
   }, [gaps]);
 
+  const departures = useMemo(
+    () =>
+      activeData
+        ? calculateDepartureImpacts(activeData).filter((d) => d.riskScore > 0)
+        : [],
+    [activeData],
+  );
+
+  // Covered skills that hinge on a single advanced/expert member
+  const fragileSkills = useMemo(
+    () =>
+      activeData
+        ? calculateSkillBusFactors(activeData).filter((b) => b.busFactor === 1)
+        : [],
+    [activeData],
+  );
+
   if (loading) {
     return (
       <div className='flex items-center justify-center h-96'>
@@ -46,7 +93,7 @@ export const GapAnalysisPage: React.FC = () => {
     );
   }
 
-  if (error || !data) {
+  if (error || !data || !activeData || !projectedData) {
     return (
       <div className='flex items-center justify-center h-96'>
         <Empty description={error || 'No data available'} />
@@ -61,7 +108,12 @@ export const GapAnalysisPage: React.FC = () => {
       key: 'skill',
       render: (text: string, record: SkillGap) => (
         <div>
-          <span className='font-medium text-white'>{text}</span>
+          <SkillLink
+            skillId={record.skill.id}
+            className='font-medium text-white hover:underline'
+          >
+            {text}
+          </SkillLink>
           {record.categories.length > 1 && (
             <span className='ml-2 text-xs text-indigo-400'>⟷ overlap</span>
           )}
@@ -97,22 +149,27 @@ export const GapAnalysisPage: React.FC = () => {
       key: 'coverage',
       sorter: (a: SkillGap, b: SkillGap) =>
         a.currentCoverage - b.currentCoverage,
-      render: (count: number) => {
-        const maxExpected = 3;
+      render: (count: number, record: SkillGap) => {
+        const { minMembers, minProficiency } = record.rule;
+        const maxExpected = Math.max(minMembers, 1);
         const percent = Math.min((count / maxExpected) * 100, 100);
         const status =
-          count === 0 ? 'exception' : count < 2 ? 'normal' : 'success';
+          count === 0 ? 'exception' : count < minMembers ? 'normal' : 'success';
         return (
-          <div className='flex items-center gap-2'>
-            <Progress
-              percent={percent}
-              steps={3}
-              size='small'
-              status={status}
-              showInfo={false}
-            />
-            <span className='text-gray-400 text-sm'>{count} members</span>
-          </div>
+          <Tooltip
+            title={`Target: ${minMembers} members at ${PROFICIENCY_LABELS[minProficiency]} or above`}
+          >
+            <div className='flex items-center gap-2'>
+              <Progress
+                percent={percent}
+                steps={maxExpected}
+                size='small'
+                status={status}
+                showInfo={false}
+              />
+              <span className='text-gray-400 text-sm'>{count} members</span>
+            </div>
+          </Tooltip>
         );
       },
     },
@@ -121,8 +178,14 @@ export const GapAnalysisPage: React.FC = () => {
       dataIndex: 'expertCount',
       key: 'experts',
       sorter: (a: SkillGap, b: SkillGap) => a.expertCount - b.expertCount,
-      render: (count: number) => (
-        <span className={count === 0 ? 'text-orange-400' : 'text-green-400'}>
+      render: (count: number, record: SkillGap) => (
+        <span
+          className={
+            count < record.rule.minExperts
+              ? 'text-orange-400'
+              : 'text-green-400'
+          }
+        >
           {count} {count === 1 ? 'expert' : 'experts'}
         </span>
       ),
@@ -130,32 +193,39 @@ export const GapAnalysisPage: React.FC = () => {
     {
       title: 'Status',
       key: 'status',
+      render: (_: unknown, record: SkillGap) => (
+        <GapStatusTag status={record.status} />
+      ),
+    },
+    {
+      title: 'Learning',
+      key: 'learning',
+      filters: [
+        { text: 'Being worked on', value: 'learning' },
+        { text: 'Nobody working on it', value: 'unaddressed' },
+      ],
+      onFilter: (value: React.Key | boolean, record: SkillGap) =>
+        record.status !== 'healthy' &&
+        (value === 'learning') === record.learners.length > 0,
       render: (_: unknown, record: SkillGap) => {
-        if (record.currentCoverage === 0) {
-          return (
-            <Tag icon={<WarningOutlined />} color='error'>
-              No Coverage
-            </Tag>
-          );
-        }
-        if (record.expertCount === 0) {
-          return (
-            <Tag icon={<ExclamationCircleOutlined />} color='warning'>
-              No Expert
-            </Tag>
-          );
-        }
-        if (record.currentCoverage < 2) {
-          return (
-            <Tag icon={<ExclamationCircleOutlined />} color='warning'>
-              Limited
-            </Tag>
+        if (record.learners.length === 0) {
+          return record.status === 'healthy' ? (
+            <span className='text-gray-600'>—</span>
+          ) : (
+            <span className='text-red-400 text-sm'>Nobody working on it</span>
           );
         }
         return (
-          <Tag icon={<CheckCircleOutlined />} color='success'>
-            Healthy
-          </Tag>
+          <Tooltip
+            title={`Learning: ${record.learners.map((m) => m.name).join(', ')}`}
+          >
+            <div className='flex items-center gap-1 whitespace-nowrap'>
+              <span className='text-gray-300 text-sm'>
+                {record.learners.length} learning →
+              </span>
+              <GapStatusTag status={record.plannedStatus} />
+            </div>
+          </Tooltip>
         );
       },
     },
@@ -172,6 +242,94 @@ export const GapAnalysisPage: React.FC = () => {
     },
   ];
 
+  const skillTags = (skills: Subcategory[], color: string) =>
+    skills.length ? (
+      <div className='flex flex-wrap gap-1'>
+        {skills.map((skill) => (
+          <SkillLink key={skill.id} skillId={skill.id}>
+            <Tag color={color}>{skill.name}</Tag>
+          </SkillLink>
+        ))}
+      </div>
+    ) : (
+      <span className='text-gray-500'>—</span>
+    );
+
+  const categoryTags = (categories: SkillCategory[]) =>
+    categories.length ? (
+      <div className='flex flex-wrap gap-1'>
+        {categories.map((cat) => (
+          <Tag
+            key={cat.id}
+            style={{
+              backgroundColor: `${cat.color}20`,
+              color: cat.color,
+              border: `1px solid ${cat.color}`,
+            }}
+          >
+            {cat.name}
+          </Tag>
+        ))}
+      </div>
+    ) : (
+      <span className='text-gray-500'>—</span>
+    );
+
+  const departureColumns = [
+    {
+      title: 'Member',
+      key: 'member',
+      render: (_: unknown, record: DepartureImpact) => (
+        <div>
+          <Link
+            to={`/members/${record.member.id}`}
+            className='font-medium text-white hover:underline'
+          >
+            {record.member.name}
+          </Link>
+          <div className='text-xs text-gray-400'>{record.member.role}</div>
+        </div>
+      ),
+    },
+    {
+      title: 'Risk',
+      dataIndex: 'riskScore',
+      key: 'risk',
+      sorter: (a: DepartureImpact, b: DepartureImpact) =>
+        a.riskScore - b.riskScore,
+      render: (score: number, record: DepartureImpact) => (
+        <Tooltip
+          title={`${record.worsenedGaps.length} skill gaps would get worse`}
+        >
+          <span className='font-semibold text-orange-400'>{score}</span>
+        </Tooltip>
+      ),
+    },
+    {
+      title: 'Only Holder Of',
+      key: 'lost',
+      render: (_: unknown, record: DepartureImpact) =>
+        skillTags(record.lostSkills, 'error'),
+    },
+    {
+      title: 'Only Senior Holder Of',
+      key: 'lostSenior',
+      render: (_: unknown, record: DepartureImpact) =>
+        skillTags(
+          record.lostSeniorSkills.filter(
+            (skill) => !record.lostSkills.includes(skill),
+          ),
+          'warning',
+        ),
+    },
+    {
+      title: 'Categories Left Without Seniors',
+      key: 'categories',
+      render: (_: unknown, record: DepartureImpact) =>
+        categoryTags(record.lostCategories),
+    },
+  ];
+
   // Find skills that span the most categories (potential collaboration points)
   const crossDomainSkills = gaps
     .filter((g) => g.categories.length >= 2)
@@ -191,6 +349,18 @@ export const GapAnalysisPage: React.FC = () => {
         </p>
       </div>
 
+      {/* What-If Simulation */}
+      <Card className='glass-card'>
+        <DepartureSimulator
+          members={data.members}
+          projectedData={projectedData}
+          enabled={simulating}
+          scenario={scenario}
+          onToggle={setSimulating}
+          onScenarioChange={setScenario}
+        />
+      </Card>
+
       {/* Stats */}
       <Row gutter={[16, 16]}>
         <Col xs={24} sm={8}>
@@ -241,7 +411,7 @@ export const GapAnalysisPage: React.FC = () => {
         <GapDistributionChart
           gaps={gaps}
           categories={data.categories}
-          members={data.members}
+          members={activeData.members}
         />
       </Card>
 
@@ -260,7 +430,9 @@ export const GapAnalysisPage: React.FC = () => {
               key={gap.skill.id}
               className='p-4 rounded-lg bg-white/5 border border-white/10'
             >
-              <h3 className='font-medium text-white mb-2'>{gap.skill.name}</h3>
+              <h3 className='font-medium text-white mb-2'>
+                <SkillLink skillId={gap.skill.id}>{gap.skill.name}</SkillLink>
+              </h3>
               <div className='flex flex-wrap gap-1 mb-2'>
                 {gap.categories.map((cat) => (
                   <span
@@ -299,6 +471,61 @@ export const GapAnalysisPage: React.FC = () => {
         />
       </Card>
 
+      {/* Succession Risk */}
+      <Card className='glass-card !mb-10'>
+        <h2 className='text-xl font-semibold text-white mb-4'>
+          <UserDeleteOutlined className='mr-2' />
+          Bus Factor &amp; Succession Risk
+        </h2>
+        <p className='text-gray-400 text-sm mb-4'>
+          Members ranked by how much coverage would disappear if they left.
+          Losing a skill outright counts most, followed by losing its only
+          advanced or expert holder.
+        </p>
+        {departures.length ? (
+          <Table
+            dataSource={departures}
+            columns={departureColumns}
+            rowKey={(record) => record.member.id}
+            pagination={{ pageSize: 5 }}
+            style={{ background: 'transparent' }}
+            scroll={{ x: 'max-content' }}
+          />
+        ) : (
+          <Empty description='No single departure would weaken coverage' />
+        )}
+
+        {fragileSkills.length > 0 && (
+          <>
+            <h3 className='text-lg font-medium text-white mt-6 mb-3'>
+              Skills With a Bus Factor of One
+            </h3>
+            <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4'>
+              {fragileSkills.map(({ skill, categories, seniorHolders }) => (
+                <div
+                  key={skill.id}
+                  className='p-4 rounded-lg bg-white/5 border border-white/10'
+                  style={{ borderLeft: `4px solid ${categories[0]?.color}` }}
+                >
+                  <h4 className='font-medium text-white'>
+                    <SkillLink skillId={skill.id}>{skill.name}</SkillLink>
+                  </h4>
+                  <div className='text-sm text-gray-400 mt-1'>
+                    Depends on{' '}
+                    <Link
+                      to={`/members/${seniorHolders[0].id}`}
+                      className='text-orange-400 hover:underline'
+                    >
+                      {seniorHolders[0].name}
+                    </Link>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </Card>
+
       {/* Collaboration Suggestions */}
       <Card className='glass-card'>
         <h2 className='text-xl font-semibold text-white mb-4'>
@@ -306,7 +533,7 @@ export const GapAnalysisPage: React.FC = () => {
         </h2>
         <div className='space-y-4'>
           {gaps
-            .filter((g) => g.currentCoverage === 0)
+            .filter((g) => g.status === 'no-coverage')
             .slice(0, 3)
             .map((gap) => (
               <div
@@ -317,7 +544,9 @@ export const GapAnalysisPage: React.FC = () => {
                   borderLeft: `4px solid ${gap.categories[0]?.color}`,
                 }}
               >
-                <h3 className='font-medium text-white'>{gap.skill.name}</h3>
+                <h3 className='font-medium text-white'>
+                  <SkillLink skillId={gap.skill.id}>{gap.skill.name}</SkillLink>
+                </h3>
                 <p className='text-gray-400 text-sm mt-1'>
                   Consider reaching out to labs specializing in{' '}
                   {gap.categories.map((c, i) => (
@@ -331,7 +560,7 @@ export const GapAnalysisPage: React.FC = () => {
                 </p>
               </div>
             ))}
-          {gaps.filter((g) => g.currentCoverage === 0).length === 0 && (
+          {gaps.filter((g) => g.status === 'no-coverage').length === 0 && (
             <p className='text-gray-400'>
               Great news! All skill areas have at least some coverage.
             </p>
@@ -18,58 +18,11 @@ import {
   GlobalOutlined,
   RocketOutlined,
 } from '@ant-design/icons';
+import { useSkillsData } from '../hooks/useSkillsData';
+import type { HomeConfig } from '../types/types';
 
 const { Title, Paragraph, Text } = Typography;
 
-interface HomeConfig {
-  hero: {
-    title: string;
-    subtitle: string;
-    description: string;
-  };
-  lab: {
-    name: string;
-    fullName: string;
-    institution: string;
-    description: string;
-    website?: string;
-    director?: {
-      name: string;
-      title: string;
-      email?: string;
-    };
-  };
-  features: Array<{
-    icon: string;
-    title: string;
-    description: string;
-  }>;
-  statistics: {
-    showStats: boolean;
-    customStats: Array<{
-      title: string;
-      value: number;
-      suffix?: string;
-    }>;
-  };
-  quickLinks: Array<{
-    title: string;
-    description: string;
-    link: string;
-    icon: string;
-  }>;
-}
-
-interface SkillsData {
-  categories: Array<{ id: string; name: string }>;
-  skills: Array<{ id: string; name: string }>;
-  members: Array<{
-    id: string;
-    name: string;
-    skills: Array<{ skillId: string }>;
-  }>;
-}
-
 const iconMap: Record<string, React.ReactNode> = {
   TeamOutlined: <TeamOutlined />,
   SearchOutlined: <SearchOutlined />,
@@ -78,42 +31,37 @@ const iconMap: Record<string, React.ReactNode> = {
 };
 
 const HomePage: React.FC = () => {
+  const { data, loading: dataLoading } = useSkillsData();
   const [config, setConfig] = useState<HomeConfig | null>(null);
-  const [stats, setStats] = useState<{
-    members: number;
-    skills: number;
-    categories: number;
-  } | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [configLoading, setConfigLoading] = useState(true);
 
   useEffect(() => {
-    const loadData = async () => {
+    const loadConfig = async () => {
       try {
-        const [configRes, skillsRes] = await Promise.all([
-          fetch(`${import.meta.env.BASE_URL}data/homeConfig.json`),
-          fetch(`${import.meta.env.BASE_URL}data/skillsData.json`),
-        ]);
-
+        const configRes = await fetch(
+          `${import.meta.env.BASE_URL}data/homeConfig.json`,
+        );
         const configData = await configRes.json();
-        const skillsData: SkillsData = await skillsRes.json();
-
         setConfig(configData);
-        setStats({
-          members: skillsData.members.length,
-          skills: skillsData.skills.length,
-          categories: skillsData.categories.length,
-        });
       } catch (error) {
         console.error('Failed to load home page data:', error);
       } finally {
-        setLoading(false);
+        setConfigLoading(false);
       }
     };
 
-    loadData();
+    loadConfig();
   }, []);
 
-  if (loading) {
+  const stats = data
+    ? {
+        members: data.members.length,
+        skills: data.skills.length,
+        categories: data.categories.length,
+      }
+    : null;
+
+  if (configLoading || dataLoading) {
     return (
       <div className='flex items-center justify-center min-h-screen'>
         <Spin size='large' />
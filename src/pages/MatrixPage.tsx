@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Card, Empty, Segmented, Spin } from 'antd';
+import { useSkillsData } from '../hooks/useSkillsData';
+import { PROFICIENCY_COLORS, PROFICIENCY_LABELS } from '../types/types';
+import SkillHeatmap from '../components/SkillHeatmap';
+import type {
+  HeatmapColumnOrder,
+  HeatmapRowOrder,
+} from '../components/SkillHeatmap';
+
+export const MatrixPage: React.FC = () => {
+  const { data, loading, error } = useSkillsData();
+  const [rowOrder, setRowOrder] = useState<HeatmapRowOrder>('total');
+  const [columnOrder, setColumnOrder] =
+    useState<HeatmapColumnOrder>('category');
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Spin size='large' tip='Loading skills matrix...' fullscreen />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Empty description={error || 'No data available'} />
+      </div>
+    );
+  }
+
+  return (
+    <div className='space-y-8'>
+      {/* Header */}
+      <div className='text-center'>
+        <h1 className='text-4xl font-bold bg-gradient-to-r from-amber-400 via-orange-400 to-rose-400 bg-clip-text text-transparent mb-4'>
+          Skill Matrix
+        </h1>
+        <p className='text-gray-400 max-w-2xl mx-auto'>
+          Who knows what, at a glance. Clustering places members with similar
+          profiles and skills held by the same people next to each other.
+        </p>
+      </div>
+
+      <Card className='glass-card'>
+        <div className='flex flex-wrap items-center gap-4 mb-4'>
+          <div className='flex items-center gap-2'>
+            <span className='text-gray-400 text-sm'>Members</span>
+            <Segmented
+              value={rowOrder}
+              onChange={(v) => setRowOrder(v as HeatmapRowOrder)}
+              options={[
+                { label: 'Most Skilled', value: 'total' },
+                { label: 'Name', value: 'name' },
+                { label: 'Clustered', value: 'cluster' },
+              ]}
+            />
+          </div>
+          <div className='flex items-center gap-2'>
+            <span className='text-gray-400 text-sm'>Skills</span>
+            <Segmented
+              value={columnOrder}
+              onChange={(v) => setColumnOrder(v as HeatmapColumnOrder)}
+              options={[
+                { label: 'By Category', value: 'category' },
+                { label: 'Coverage', value: 'coverage' },
+                { label: 'Clustered', value: 'cluster' },
+              ]}
+            />
+          </div>
+          <div className='flex flex-wrap items-center gap-3 ml-auto'>
+            {(['expert', 'advanced', 'intermediate', 'beginner'] as const).map(
+              (level) => (
+                <div key={level} className='flex items-center gap-1.5'>
+                  <span
+                    className='w-3 h-3 rounded-sm inline-block'
+                    style={{ backgroundColor: PROFICIENCY_COLORS[level] }}
+                  />
+                  <span className='text-gray-300 text-xs'>
+                    {PROFICIENCY_LABELS[level]}
+                  </span>
+                </div>
+              ),
+            )}
+          </div>
+        </div>
+        <SkillHeatmap
+          data={data}
+          rowOrder={rowOrder}
+          columnOrder={columnOrder}
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default MatrixPage;
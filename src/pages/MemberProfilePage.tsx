@@ -0,0 +1,281 @@
+import React, { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Avatar, Button, Card, Empty, Spin, Tag, Tooltip } from 'antd';
+import {
+  ArrowLeftOutlined,
+  SwapOutlined,
+  GithubOutlined,
+  MailOutlined,
+  UserOutlined,
+  WarningOutlined,
+} from '@ant-design/icons';
+import {
+  useSkillsData,
+  calculateDepartureImpact,
+  getMemberBlendedColor,
+  getSkillById,
+} from '../hooks/useSkillsData';
+import type { MemberSkill, RadarSeries, Subcategory } from '../types/types';
+import {
+  PROFICIENCY_COLORS,
+  PROFICIENCY_LABELS,
+  PROFICIENCY_WEIGHTS,
+} from '../types/types';
+import CategoryRadarChart from '../components/CategoryRadarChart';
+import SkillLink from '../components/SkillLink';
+import LearningPathCard from '../components/LearningPathCard';
+import SkillRecommendationsCard from '../components/SkillRecommendationsCard';
+
+export const MemberProfilePage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data, loading, error, categoryWeights, gaps } = useSkillsData();
+
+  const member = data?.members.find((m) => m.id === id) ?? null;
+
+  // Only-holder skills come from the same analysis as the bus-factor table
+  const impact = useMemo(
+    () =>
+      data && member ? calculateDepartureImpact(data, member, gaps) : null,
+    [data, member, gaps],
+  );
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Spin size='large' tip='Loading profile...' fullscreen />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Empty description={error || 'No data available'} />
+      </div>
+    );
+  }
+
+  if (!member) {
+    return (
+      <div className='flex flex-col items-center justify-center h-96 gap-4'>
+        <Empty description={`No member with id "${id}"`} />
+        <Link to='/overview'>
+          <Button icon={<ArrowLeftOutlined />}>Back to Overview</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const weights = categoryWeights[member.id] ?? {};
+  const blendedColor = getMemberBlendedColor(weights, data.categories);
+  const radarSeries: RadarSeries[] = [
+    { id: member.id, name: member.name, color: blendedColor, values: weights },
+  ];
+
+  // Every skill under each category it belongs to, strongest first
+  const skillsByCategory = data.categories
+    .map((category) => ({
+      category,
+      skills: member.skills
+        .map((ms) => ({ ms, skill: getSkillById(data.skills, ms.skillId) }))
+        .filter(
+          (h): h is { ms: MemberSkill; skill: Subcategory } =>
+            !!h.skill && h.skill.belongsTo.includes(category.id),
+        )
+        .sort(
+          (a, b) =>
+            PROFICIENCY_WEIGHTS[b.ms.proficiency] -
+            PROFICIENCY_WEIGHTS[a.ms.proficiency],
+        ),
+    }))
+    .filter((group) => group.skills.length > 0);
+
+  const lostSkills = impact?.lostSkills ?? [];
+  const soleSeniorOnly = (impact?.lostSeniorSkills ?? []).filter(
+    (s) => !lostSkills.includes(s),
+  );
+
+  return (
+    <div className='space-y-8'>
+      {/* Header */}
+      <Card className='glass-card'>
+        <div className='flex flex-wrap items-center gap-6'>
+          <Avatar
+            size={96}
+            icon={<UserOutlined />}
+            src={member.avatar}
+            style={{
+              background: blendedColor,
+              border: `3px solid ${blendedColor}`,
+            }}
+          />
+          <div className='flex-1 min-w-0'>
+            <h1 className='text-3xl font-bold text-white mb-1'>
+              {member.name}
+            </h1>
+            <p className='text-gray-400 mb-2'>{member.role}</p>
+            {(member.startDate || member.expectedEndDate) && (
+              <p className='text-gray-500 text-sm mb-2'>
+                {member.startDate ?? '?'} –{' '}
+                {member.expectedEndDate ?? 'present'}
+              </p>
+            )}
+            <div className='flex flex-wrap gap-3'>
+              {member.email && (
+                <a
+                  href={`mailto:${member.email}`}
+                  className='text-gray-300 hover:text-white transition-colors'
+                >
+                  <MailOutlined className='mr-1' />
+                  {member.email}
+                </a>
+              )}
+              {member.github && (
+                <a
+                  href={`https://github.com/${member.github}`}
+                  target='_blank'
+                  rel='noopener noreferrer'
+                  className='text-gray-300 hover:text-white transition-colors'
+                >
+                  <GithubOutlined className='mr-1' />@{member.github}
+                </a>
+              )}
+            </div>
+          </div>
+          <Link to={`/compare?members=${member.id}`}>
+            <Button icon={<SwapOutlined />}>Compare</Button>
+          </Link>
+          <Tooltip title='Blend of category colors, weighted by proficiency'>
+            <div className='flex items-center gap-2 text-sm text-gray-400'>
+              <span
+                className='w-4 h-4 rounded-full inline-block'
+                style={{ backgroundColor: blendedColor }}
+              />
+              {blendedColor}
+            </div>
+          </Tooltip>
+        </div>
+      </Card>
+
+      <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+        {/* Radar */}
+        <Card className='glass-card'>
+          <h2 className='text-xl font-semibold text-white mb-4'>
+            Category Profile
+          </h2>
+          <div className='flex justify-center'>
+            <CategoryRadarChart
+              categories={data.categories}
+              series={radarSeries}
+            />
+          </div>
+        </Card>
+
+        {/* Sole holder */}
+        <Card className='glass-card'>
+          <h2 className='text-xl font-semibold text-white mb-4'>
+            <WarningOutlined className='mr-2 text-orange-400' />
+            Irreplaceable Skills
+          </h2>
+          {lostSkills.length > 0 || soleSeniorOnly.length > 0 ? (
+            <div className='space-y-4'>
+              {lostSkills.length > 0 && (
+                <div>
+                  <p className='text-gray-400 text-sm mb-2'>
+                    Nobody else in the lab holds these:
+                  </p>
+                  <div className='flex flex-wrap gap-1'>
+                    {lostSkills.map((skill) => (
+                      <SkillLink key={skill.id} skillId={skill.id}>
+                        <Tag color='error'>{skill.name}</Tag>
+                      </SkillLink>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {soleSeniorOnly.length > 0 && (
+                <div>
+                  <p className='text-gray-400 text-sm mb-2'>
+                    Only advanced or expert holder of:
+                  </p>
+                  <div className='flex flex-wrap gap-1'>
+                    {soleSeniorOnly.map((skill) => (
+                      <SkillLink key={skill.id} skillId={skill.id}>
+                        <Tag color='warning'>{skill.name}</Tag>
+                      </SkillLink>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className='text-gray-400'>
+              Every skill {member.name} holds is also covered by someone else.
+            </p>
+          )}
+        </Card>
+      </div>
+
+      <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+        <SkillRecommendationsCard data={data} member={member} gaps={gaps} />
+        <LearningPathCard key={member.id} data={data} member={member} />
+      </div>
+
+      {/* Skills by category */}
+      <Card className='glass-card'>
+        <h2 className='text-xl font-semibold text-white mb-4'>
+          Skills ({member.skills.length})
+        </h2>
+        {skillsByCategory.length === 0 ? (
+          <Empty description='No skills recorded yet' />
+        ) : (
+          <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
+            {skillsByCategory.map(({ category, skills }) => (
+              <div key={category.id}>
+                <h3
+                  className='text-sm font-medium uppercase tracking-wider mb-2'
+                  style={{ color: category.color }}
+                >
+                  {category.name}
+                </h3>
+                <div className='space-y-2'>
+                  {skills.map(({ ms, skill }) => (
+                    <div
+                      key={skill.id}
+                      className='flex items-center justify-between gap-3 p-2 rounded-lg bg-white/5'
+                    >
+                      <div className='min-w-0'>
+                        <SkillLink
+                          skillId={skill.id}
+                          className='text-white hover:underline'
+                        >
+                          {skill.name}
+                        </SkillLink>
+                        {ms.lastVerified && (
+                          <div className='text-xs text-gray-500'>
+                            Last verified {ms.lastVerified}
+                          </div>
+                        )}
+                      </div>
+                      <Tag
+                        style={{
+                          background: `${PROFICIENCY_COLORS[ms.proficiency]}20`,
+                          borderColor: PROFICIENCY_COLORS[ms.proficiency],
+                          color: PROFICIENCY_COLORS[ms.proficiency],
+                        }}
+                      >
+                        {PROFICIENCY_LABELS[ms.proficiency]}
+                      </Tag>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default MemberProfilePage;
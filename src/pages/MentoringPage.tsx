@@ -0,0 +1,290 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Button,
+  Card,
+  Empty,
+  InputNumber,
+  Progress,
+  Select,
+  Spin,
+  Table,
+  Tag,
+} from 'antd';
+import { DownloadOutlined, WarningOutlined } from '@ant-design/icons';
+import { useSkillsData, suggestMentorPairings } from '../hooks/useSkillsData';
+import type {
+  LabMember,
+  MentorPairing,
+  ProficiencyLevel,
+} from '../types/types';
+import { PROFICIENCY_COLORS, PROFICIENCY_LABELS } from '../types/types';
+import SkillLink from '../components/SkillLink';
+import { downloadCsv } from '../utils/csv';
+import { todayISODate } from '../utils/dates';
+
+const UNMATCHED_LABELS = {
+  'no-senior-holder': 'No advanced or expert holder',
+  'mentors-at-capacity': 'All mentors at capacity',
+};
+
+export const MentoringPage: React.FC = () => {
+  const { data, loading, error } = useSkillsData();
+  const [maxMentees, setMaxMentees] = useState(3);
+  const [memberId, setMemberId] = useState<string | null>(null);
+
+  const plan = useMemo(
+    () => (data ? suggestMentorPairings(data, maxMentees) : null),
+    [data, maxMentees],
+  );
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Spin size='large' tip='Loading members...' fullscreen />
+      </div>
+    );
+  }
+
+  if (error || !data || !plan) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Empty description={error || 'No data available'} />
+      </div>
+    );
+  }
+
+  const involves = (ids: string[]) => !memberId || ids.includes(memberId);
+  const pairings = plan.pairings.filter((p) =>
+    involves([p.mentor.id, p.mentee.id]),
+  );
+  const unmatched = plan.unmatched.filter((u) => involves([u.mentee.id]));
+  const mentorLoad = Object.entries(plan.load)
+    .map(([id, count]) => ({
+      member: data.members.find((m) => m.id === id)!,
+      count,
+    }))
+    .sort(
+      (a, b) => b.count - a.count || a.member.name.localeCompare(b.member.name),
+    );
+
+  const exportCsv = () => {
+    downloadCsv(`mentoring-pairs-${todayISODate()}.csv`, [
+      [
+        'Skill',
+        'Mentee',
+        'Mentee Level',
+        'Mentor',
+        'Mentor Level',
+        'Category Overlap',
+        'Rationale',
+      ],
+      ...pairings.map((p) => [
+        p.skill.name,
+        p.mentee.name,
+        PROFICIENCY_LABELS[p.menteeLevel],
+        p.mentor.name,
+        PROFICIENCY_LABELS[p.mentorLevel],
+        `${Math.round(p.affinity * 100)}%`,
+        p.rationale,
+      ]),
+    ]);
+  };
+
+  const memberCell = (member: LabMember, level: ProficiencyLevel) => (
+    <div className='flex items-center gap-2'>
+      <Link to={`/members/${member.id}`} className='text-white hover:underline'>
+        {member.name}
+      </Link>
+      <Tag
+        style={{
+          background: `${PROFICIENCY_COLORS[level]}20`,
+          borderColor: PROFICIENCY_COLORS[level],
+          color: PROFICIENCY_COLORS[level],
+        }}
+      >
+        {PROFICIENCY_LABELS[level]}
+      </Tag>
+    </div>
+  );
+
+  const columns = [
+    {
+      title: 'Skill',
+      key: 'skill',
+      sorter: (a: MentorPairing, b: MentorPairing) =>
+        a.skill.name.localeCompare(b.skill.name),
+      render: (_: unknown, record: MentorPairing) => (
+        <SkillLink
+          skillId={record.skill.id}
+          className='font-medium text-white hover:underline'
+        >
+          {record.skill.name}
+        </SkillLink>
+      ),
+    },
+    {
+      title: 'Mentee',
+      key: 'mentee',
+      render: (_: unknown, record: MentorPairing) =>
+        memberCell(record.mentee, record.menteeLevel),
+    },
+    {
+      title: 'Mentor',
+      key: 'mentor',
+      render: (_: unknown, record: MentorPairing) =>
+        memberCell(record.mentor, record.mentorLevel),
+    },
+    {
+      title: 'Category Overlap',
+      dataIndex: 'affinity',
+      key: 'affinity',
+      sorter: (a: MentorPairing, b: MentorPairing) => a.affinity - b.affinity,
+      render: (affinity: number) => (
+        <Progress
+          percent={Math.round(affinity * 100)}
+          size='small'
+          className='!w-32 !m-0'
+        />
+      ),
+    },
+    {
+      title: 'Rationale',
+      dataIndex: 'rationale',
+      key: 'rationale',
+      render: (rationale: string) => (
+        <span className='text-gray-400 text-sm'>{rationale}</span>
+      ),
+    },
+  ];
+
+  return (
+    <div className='space-y-8'>
+      {/* Header */}
+      <div className='text-center'>
+        <h1 className='text-4xl font-bold bg-gradient-to-r from-lime-400 via-green-400 to-emerald-400 bg-clip-text text-transparent mb-4'>
+          Mentoring
+        </h1>
+        <p className='text-gray-400 max-w-2xl mx-auto'>
+          Suggested pairs of beginner or intermediate members with advanced or
+          expert members of the same skill. Mentees are spread across mentors,
+          and mentors whose category profile resembles the mentee's are
+          preferred.
+        </p>
+      </div>
+
+      <Card className='glass-card'>
+        <div className='flex flex-wrap items-center gap-4'>
+          <div className='flex items-center gap-2'>
+            <span className='text-gray-400 text-sm'>
+              Max mentees per mentor
+            </span>
+            <InputNumber
+              min={1}
+              max={10}
+              value={maxMentees}
+              onChange={(v) => setMaxMentees(v ?? 1)}
+            />
+          </div>
+          <Select
+            allowClear
+            placeholder='Filter by member'
+            value={memberId}
+            onChange={(v) => setMemberId(v ?? null)}
+            className='min-w-[220px]'
+            optionFilterProp='label'
+            showSearch
+            options={data.members.map((m) => ({ value: m.id, label: m.name }))}
+          />
+          <Button
+            icon={<DownloadOutlined />}
+            onClick={exportCsv}
+            disabled={pairings.length === 0}
+            className='ml-auto'
+          >
+            Export CSV
+          </Button>
+        </div>
+      </Card>
+
+      <Card className='glass-card'>
+        <h2 className='text-xl font-semibold text-white mb-4'>
+          Suggested Pairs ({pairings.length})
+        </h2>
+        <Table
+          dataSource={pairings}
+          columns={columns}
+          rowKey={(record) => `${record.skill.id}:${record.mentee.id}`}
+          pagination={{ pageSize: 15 }}
+          style={{ background: 'transparent' }}
+          scroll={{ x: 'max-content' }}
+          locale={{ emptyText: 'No mentoring pairs to suggest' }}
+        />
+      </Card>
+
+      <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+        {/* Mentor load */}
+        <Card className='glass-card'>
+          <h2 className='text-xl font-semibold text-white mb-4'>Mentor Load</h2>
+          {mentorLoad.length === 0 ? (
+            <p className='text-gray-400'>No mentors assigned.</p>
+          ) : (
+            <div className='space-y-2'>
+              {mentorLoad.map(({ member, count }) => (
+                <div key={member.id} className='flex items-center gap-3'>
+                  <Link
+                    to={`/members/${member.id}`}
+                    className='text-white hover:underline w-40 truncate'
+                  >
+                    {member.name}
+                  </Link>
+                  <Progress
+                    percent={(count / maxMentees) * 100}
+                    format={() => `${count} / ${maxMentees}`}
+                    size='small'
+                    className='!m-0 flex-1'
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Unmatched */}
+        <Card className='glass-card'>
+          <h2 className='text-xl font-semibold text-white mb-4'>
+            <WarningOutlined className='mr-2 text-orange-400' />
+            Without a Mentor ({unmatched.length})
+          </h2>
+          {unmatched.length === 0 ? (
+            <p className='text-gray-400'>Every learner has a mentor.</p>
+          ) : (
+            <div className='space-y-2'>
+              {unmatched.map(({ skill, mentee, reason }) => (
+                <div
+                  key={`${skill.id}:${mentee.id}`}
+                  className='flex flex-wrap items-center justify-between gap-2 p-2 rounded-lg bg-white/5'
+                >
+                  <span className='text-gray-300'>
+                    <Link
+                      to={`/members/${mentee.id}`}
+                      className='text-white hover:underline'
+                    >
+                      {mentee.name}
+                    </Link>{' '}
+                    in <SkillLink skillId={skill.id}>{skill.name}</SkillLink>
+                  </span>
+                  <span className='text-gray-500 text-sm'>
+                    {UNMATCHED_LABELS[reason]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default MentoringPage;
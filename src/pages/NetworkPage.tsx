@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { Card, Empty, Slider, Spin } from 'antd';
+import { ShareAltOutlined } from '@ant-design/icons';
+import * as d3 from 'd3';
+import {
+  useSkillsData,
+  calculateSkillCooccurrence,
+  getCommunityColor,
+} from '../hooks/useSkillsData';
+import SkillNetworkChart from '../components/SkillNetworkChart';
+import SkillLink from '../components/SkillLink';
+
+export const NetworkPage: React.FC = () => {
+  const { data, loading, error } = useSkillsData();
+  const [minWeight, setMinWeight] = useState(1);
+
+  const graph = useMemo(
+    () => (data ? calculateSkillCooccurrence(data, minWeight) : null),
+    [data, minWeight],
+  );
+  // Slider range comes from the unfiltered graph
+  const maxWeight = useMemo(
+    () =>
+      data
+        ? Math.max(
+            1,
+            ...calculateSkillCooccurrence(data).links.map((l) => l.weight),
+          )
+        : 1,
+    [data],
+  );
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Spin size='large' tip='Loading skill network...' fullscreen />
+      </div>
+    );
+  }
+
+  if (error || !data || !graph) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Empty description={error || 'No data available'} />
+      </div>
+    );
+  }
+
+  // Clusters of two or more skills; singletons have no one to cluster with
+  const communities = Array.from(
+    d3.group(graph.nodes, (n) => n.community),
+  ).filter(([, nodes]) => nodes.length > 1);
+  const bridges = graph.nodes
+    .filter((n) => n.bridgeScore > 0)
+    .sort(
+      (a, b) =>
+        b.bridgeScore - a.bridgeScore ||
+        b.holders - a.holders ||
+        a.skill.name.localeCompare(b.skill.name),
+    );
+
+  return (
+    <div className='space-y-8'>
+      {/* Header */}
+      <div className='text-center'>
+        <h1 className='text-4xl font-bold bg-gradient-to-r from-teal-400 via-cyan-400 to-sky-400 bg-clip-text text-transparent mb-4'>
+          Skill Network
+        </h1>
+        <p className='text-gray-400 max-w-2xl mx-auto'>
+          Skills are linked when the same members hold both; thicker links mean
+          more people in common. Colors mark skills that cluster together,
+          dashed halos mark bridge skills that connect clusters.
+        </p>
+      </div>
+
+      <Card className='glass-card'>
+        <div className='flex flex-wrap items-center gap-4 mb-4'>
+          <span className='text-gray-400 text-sm'>
+            Minimum members in common
+          </span>
+          <Slider
+            min={1}
+            max={maxWeight}
+            value={minWeight}
+            onChange={setMinWeight}
+            disabled={maxWeight === 1}
+            className='w-48 !m-0'
+          />
+          <span className='text-gray-300 text-sm'>
+            {graph.links.length} {graph.links.length === 1 ? 'link' : 'links'}
+          </span>
+        </div>
+        <SkillNetworkChart graph={graph} categories={data.categories} />
+      </Card>
+
+      <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+        {/* Clusters */}
+        <Card className='glass-card'>
+          <h2 className='text-xl font-semibold text-white mb-4'>
+            Skill Clusters
+          </h2>
+          {communities.length === 0 ? (
+            <p className='text-gray-400'>
+              No skills are held together at this threshold.
+            </p>
+          ) : (
+            <div className='space-y-3'>
+              {communities.map(([community, nodes]) => (
+                <div
+                  key={community}
+                  className='p-3 rounded-lg bg-white/5'
+                  style={{
+                    borderLeft: `4px solid ${getCommunityColor(community)}`,
+                  }}
+                >
+                  <div className='text-gray-500 text-sm mb-1'>
+                    {nodes.length} skills
+                  </div>
+                  <div className='text-sm text-gray-300'>
+                    {nodes.map((n, i) => (
+                      <span key={n.skill.id}>
+                        {i > 0 && ', '}
+                        <SkillLink skillId={n.skill.id}>
+                          {n.skill.name}
+                        </SkillLink>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Bridge skills */}
+        <Card className='glass-card'>
+          <h2 className='text-xl font-semibold text-white mb-4'>
+            <ShareAltOutlined className='mr-2 text-amber-400' />
+            Bridge Skills
+          </h2>
+          {bridges.length === 0 ? (
+            <p className='text-gray-400'>
+              No skill links more than one cluster at this threshold.
+            </p>
+          ) : (
+            <div className='space-y-2'>
+              {bridges.map((n) => (
+                <div
+                  key={n.skill.id}
+                  className='flex items-center justify-between gap-3 p-2 rounded-lg bg-white/5'
+                >
+                  <div className='flex items-center gap-2 min-w-0'>
+                    <span
+                      className='w-3 h-3 rounded-full inline-block flex-shrink-0'
+                      style={{
+                        backgroundColor: getCommunityColor(n.community),
+                      }}
+                    />
+                    <SkillLink
+                      skillId={n.skill.id}
+                      className='text-white hover:underline'
+                    >
+                      {n.skill.name}
+                    </SkillLink>
+                  </div>
+                  <span className='text-gray-400 text-sm'>
+                    links {n.bridgeScore} other{' '}
+                    {n.bridgeScore === 1 ? 'cluster' : 'clusters'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkPage;
@@ -1,42 +1,42 @@
 import React, { useState, useEffect } from 'react';
-import { useSearchParams } from 'react-router-dom';
-import { Input, Select, Spin, Empty } from 'antd';
-import { SearchOutlined } from '@ant-design/icons';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button, Input, Select, Spin, Empty } from 'antd';
+import { ArrowRightOutlined, SearchOutlined } from '@ant-design/icons';
 import { useSkillsData } from '../hooks/useSkillsData';
 import VennZoomChart from '../components/SkillChart';
 import MemberCard from '../components/MemberCard';
+import type { LabMember, SkillCategory } from '../types/types';
 
 const { Option } = Select;
 
 export const OverviewPage: React.FC = () => {
   const { data, loading, error } = useSkillsData();
+  const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const initialMemberName = searchParams.get('member');
+  const initialMemberId = searchParams.get('member');
+  // Set by the "Show in chart" link on skill pages
+  const focusSkillId = searchParams.get('skill');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [activeSkillId, setActiveSkillId] = useState<string | null>(null);
 
   const focusMemberId = React.useMemo(() => {
-    if (!data || !initialMemberName) return null;
-    const member = data.members.find((m) => m.name === initialMemberName);
+    if (!data || !initialMemberId) return null;
+    // Older links carry the member's name instead of the id
+    const member =
+      data.members.find((m) => m.id === initialMemberId) ??
+      data.members.find((m) => m.name === initialMemberId);
     return member ? member.id : null;
-  }, [data, initialMemberName]);
+  }, [data, initialMemberId]);
 
-  const handleMemberClick = React.useCallback(() => {
-    // Scroll to members grid
-    const element = document.getElementById('members-grid');
-    if (element) {
-      element.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, []);
+  const handleMemberClick = React.useCallback(
+    (member: LabMember) => navigate(`/members/${member.id}`),
+    [navigate],
+  );
 
-  const handleSkillClick = React.useCallback((skillId: string) => {
-    setActiveSkillId(skillId);
-    const element = document.getElementById('skill-chart');
-    if (element) {
-      element.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, []);
+  const handleCategoryClick = React.useCallback(
+    (category: SkillCategory) => navigate(`/categories/${category.id}`),
+    [navigate],
+  );
 
   // Sync initial URL param with search term once data is loaded
   useEffect(() => {
@@ -106,8 +106,8 @@ export const OverviewPage: React.FC = () => {
         </h1>
         <p className='text-gray-400 text-sm max-w-xl mx-auto'>
           Skills in overlapping regions span multiple categories. Scroll to
-          zoom, drag to pan. Click a skill name to focus, or click an inner
-          slice to activate a user.
+          zoom, drag to pan. Click a skill name to focus, click an inner slice
+          to activate a user, or click a category name to open its page.
         </p>
       </div>
 
@@ -116,9 +116,10 @@ export const OverviewPage: React.FC = () => {
         <VennZoomChart
           data={data}
           onMemberClick={handleMemberClick}
+          onCategoryClick={handleCategoryClick}
           onSelectionChange={handleSelectionChange}
           focusMemberId={focusMemberId}
-          focusSkillId={activeSkillId}
+          focusSkillId={focusSkillId}
           height={550}
         />
       </div>
@@ -146,6 +147,15 @@ export const OverviewPage: React.FC = () => {
             </Option>
           ))}
         </Select>
+        {selectedCategory && (
+          <Button
+            onClick={() => navigate(`/categories/${selectedCategory}`)}
+            icon={<ArrowRightOutlined />}
+            iconPlacement='end'
+          >
+            Category Details
+          </Button>
+        )}
       </div>
 
       {/* Members Grid */}
@@ -159,7 +169,7 @@ export const OverviewPage: React.FC = () => {
               key={member.id}
               member={member}
               data={data}
-              onSkillClick={handleSkillClick}
+              onClick={handleMemberClick}
             />
           ))}
         </div>
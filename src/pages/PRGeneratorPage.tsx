@@ -1,9 +1,31 @@
 import React, { useState, useEffect } from 'react';
-import { Form, message, Spin, Empty } from 'antd';
+import { Form, message, Modal, Spin, Empty } from 'antd';
 import { useSkillsData, getSkillById } from '../hooks/useSkillsData';
-import type { LabMember, MemberSkill } from '../types/types';
+import type {
+  ConflictResolution,
+  DataChange,
+  LabMember,
+  LearningGoal,
+  MemberSkill,
+  MergeConflict,
+  SkillsData,
+  ValidationIssue,
+} from '../types/types';
 import { PROFICIENCY_LABELS } from '../types/types';
+import { canonicalizeSkillsData, formatSkillsData } from '../utils/formatData';
+import { findIntroducedErrors } from '../utils/dataValidation';
+import { getConflictKey, mergeSkillsData } from '../utils/mergeData';
+import { diffSkillsData, formatDiffMarkdown } from '../utils/diffData';
 import {
+  applyChangeSet,
+  DATA_COLLECTIONS,
+  findChangeSetErrors,
+  moveChange,
+  stageChange,
+  summarizeChangeSet,
+} from '../utils/changeSet';
+import {
+  ChangeSetPanel,
   MemberList,
   MemberForm,
   PRPreviewModal,
@@ -21,6 +43,10 @@ const COMMON_ROLES = [
   'Alumni',
 ];
 
+// How long to wait for a freshly created fork to become available
+const FORK_READY_ATTEMPTS = 10;
+const FORK_READY_DELAY_MS = 2000;
+
 // Unicode-safe base64 encoding for GitHub API
 // GitHub's API expects base64-encoded content
 const encodeBase64 = (str: string): string => {
@@ -55,11 +81,119 @@ const decodeBase64 = (base64: string): string => {
   return decoder.decode(bytes);
 };
 
+// Skills, goals and category spread of a staged member, for reviewers
+const describeMember = (data: SkillsData, member: LabMember) => {
+  const weights: Record<string, number> = {};
+  for (const s of member.skills) {
+    const skill = getSkillById(data.skills, s.skillId);
+    for (const catId of skill?.belongsTo ?? []) {
+      weights[catId] = (weights[catId] || 0) + 1;
+    }
+  }
+
+  return `##### Skills Summary
+${member.skills
+  .map((s) => {
+    const skill = getSkillById(data.skills, s.skillId);
+    const categories = skill?.belongsTo
+      .map((id) => data.categories.find((c) => c.id === id)?.name)
+      .join(', ');
+    return `- **${skill?.name}** (${PROFICIENCY_LABELS[s.proficiency]}) - spans: ${categories}`;
+  })
+  .join('\n')}
+
+${
+  member.learningGoals?.length
+    ? `##### Learning Goals
+${member.learningGoals
+  .map((g) => {
+    const skill = getSkillById(data.skills, g.skillId);
+    return `- **${skill?.name}** → ${PROFICIENCY_LABELS[g.targetLevel]}${g.targetDate ? ` by ${g.targetDate}` : ''}`;
+  })
+  .join('\n')}
+
+`
+    : ''
+}##### Category Distribution
+${Object.entries(weights)
+  .map(([catId, count]) => {
+    const cat = data.categories.find((c) => c.id === catId);
+    return `- ${cat?.name}: ${count} skills`;
+  })
+  .join('\n')}
+`;
+};
+
+/**
+ * PR description for a change set. `data` is the data with the changes
+ * applied, so staged skills resolve in member summaries.
+ */
+const generatePRContent = (data: SkillsData, changes: DataChange[]) => {
+  // Entries as they will be written, so the JSON can be pasted by hand
+  const canonical = canonicalizeSkillsData(data);
+  const describeChange = (change: DataChange, index: number) => {
+    const collection = DATA_COLLECTIONS[change.entity];
+    const heading = `#### ${index + 1}. ${change.description}`;
+    if (change.action === 'delete') {
+      return `${heading}
+
+Remove the entry with ID \`${change.data.id}\` from the \`${collection}\` array.
+`;
+    }
+    const entries = (canonical[collection] ?? []) as { id: string }[];
+    const entry = entries.find((e) => e.id === change.data.id);
+    // A conflict resolved in favour of upstream's deletion
+    if (!entry) {
+      return `${heading}
+
+Not applied: the entry with ID \`${change.data.id}\` was removed upstream.
+`;
+    }
+    return `${heading}
+
+${change.action === 'add' ? `Add the following entry to the \`${collection}\` array:` : `Replace the entry with ID \`${entry.id}\` in the \`${collection}\` array with:`}
+
+\`\`\`json
+${JSON.stringify(entry, null, 2)}
+\`\`\`
+${change.entity === 'member' ? `\n${describeMember(data, entry as LabMember)}` : ''}`;
+  };
+
+  const checklist = new Set<string>();
+  for (const change of changes) {
+    if (change.entity !== 'member') {
+      checklist.add('All changes are appropriate');
+      checklist.add('No breaking changes to existing data');
+    } else if (change.action === 'delete') {
+      checklist.add('Confirmed member departure or removal request');
+    } else {
+      checklist.add('Member information is accurate');
+      checklist.add('Skills are correctly assigned');
+      checklist.add('Proficiency levels are appropriate');
+    }
+  }
+
+  return `## Data Update: ${summarizeChangeSet(changes)}
+
+### Description
+This PR applies ${changes.length} staged ${changes.length === 1 ? 'change' : 'changes'} to \`public/data/skillsData.json\`, in this order:
+
+${changes.map((c, i) => `${i + 1}. ${c.description}`).join('\n')}
+
+### Changes to \`public/data/skillsData.json\`
+
+${changes.map((c, i) => `${describeChange(c, i)}\n`).join('')}### Checklist
+${[...checklist].map((item) => `- [ ] ${item}`).join('\n')}
+`;
+};
+
 interface MemberFormData {
   name: string;
   role: string;
   email?: string;
   github?: string;
+  startDate?: string;
+  expectedEndDate?: string;
 }
 
 export const PRGeneratorPage: React.FC = () => {
@@ -67,22 +201,33 @@ export const PRGeneratorPage: React.FC = () => {
   const [messageApi, contextHolder] = message.useMessage();
   const [form] = Form.useForm();
   const [skills, setSkills] = useState<MemberSkill[]>([]);
-  const [prContent, setPrContent] = useState<string>('');
+  const [learningGoals, setLearningGoals] = useState<LearningGoal[]>([]);
   const [modalOpen, setModalOpen] = useState(false);
   const [editMode, setEditMode] = useState<'new' | 'edit'>('new');
   const [selectedMember, setSelectedMember] = useState<LabMember | null>(null);
 
   const [githubToken, setGithubToken] = useState('');
   const [creatingPR, setCreatingPR] = useState(false);
-  const [prType, setPrType] = useState<
-    'member' | 'delete-member' | 'batch' | null
-  >(null);
   const [hasChanges, setHasChanges] = useState(false);
-  const [batchChanges, setBatchChanges] = useState<any[]>([]);
+  // Staged edits of every kind, submitted together as one PR
+  const [changeSet, setChangeSet] = useState<DataChange[]>([]);
   const [targetRepo, setTargetRepo] = useState({
     owner: '',
     repo: '',
+    branch: '', // PR base, empty to use the repository's default branch
   });
+  // Upstream conflicts found by the last PR attempt and the user's choices
+  const [mergeConflicts, setMergeConflicts] = useState<MergeConflict[]>([]);
+  const [conflictResolutions, setConflictResolutions] = useState<
+    Record<string, ConflictResolution>
+  >({});
+  // Validation errors the merged file would introduce upstream
+  const [mergeErrors, setMergeErrors] = useState<ValidationIssue[]>([]);
+  // Default branch looked up for the repository currently in targetRepo
+  const [detectedBranch, setDetectedBranch] = useState<{
+    repo: string;
+    branch: string;
+  } | null>(null);
 
   // Auto-detect repository from GitHub Pages URL
   useEffect(() => {
@@ -95,17 +240,54 @@ export const PRGeneratorPage: React.FC = () => {
 
       if (match) {
         const [, owner, repo] = match;
-        setTargetRepo({ owner, repo });
+        setTargetRepo({ owner, repo, branch: '' });
       } else {
         // Fallback for local development or custom domains
-        setTargetRepo({ owner: 'whats2000', repo: 'RoboSkills' });
+        setTargetRepo({ owner: 'whats2000', repo: 'RoboSkills', branch: '' });
       }
     };
 
     detectRepo();
   }, []);
 
+  // Look up the default branch so the modal can show the PR base. Public
+  // repositories answer without a token; createPR checks again with one.
+  useEffect(() => {
+    const { owner, repo } = targetRepo;
+    if (!modalOpen || !owner || !repo) return;
+    const timer = setTimeout(() => {
+      fetch(`https://api.github.com/repos/${owner}/${repo}`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((repoData: { default_branch?: string } | null) => {
+          if (repoData?.default_branch) {
+            setDetectedBranch({
+              repo: `${owner}/${repo}`,
+              branch: repoData.default_branch,
+            });
+          }
+        })
+        .catch(() => {
+          // Private or unreachable repository, the modal falls back to a hint
+        });
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [modalOpen, targetRepo]);
+
+  const defaultBranch =
+    detectedBranch?.repo === `${targetRepo.owner}/${targetRepo.repo}`
+      ? detectedBranch.branch
+      : null;
+
+  // Conflicts belong to one attempt, so closing the modal forgets them
+  const closeModal = () => {
+    setModalOpen(false);
+    setMergeConflicts([]);
+    setConflictResolutions({});
+    setMergeErrors([]);
+  };
+
   const createPR = async () => {
+    if (!data) return;
     const sanitizedToken = githubToken.trim();
     if (!sanitizedToken) {
       void messageApi.error(
@@ -124,197 +306,180 @@ export const PRGeneratorPage: React.FC = () => {
       const FILE_PATH = 'public/data/skillsData.json';
       const BRANCH_NAME = `content-update-${Date.now()}`;
 
-      // All operations happen on the detected repository
-      const branchOwner = REPO_OWNER;
-      const branchRepo = REPO_NAME;
-
-      // Check if fork exists/user has access
-      try {
-        await octokit.request('GET /repos/{owner}/{repo}', {
-          owner: branchOwner,
-          repo: branchRepo,
+      // Check the repository exists and whether the token can push to it
+      const { data: repoData } = await octokit
+        .request('GET /repos/{owner}/{repo}', {
+          owner: REPO_OWNER,
+          repo: REPO_NAME,
+        })
+        .catch(() => {
+          throw new Error(
+            `Could not find repository ${REPO_OWNER}/${REPO_NAME}. Please ensure the repository exists.`,
+          );
         });
-      } catch (e) {
-        throw new Error(
-          `Could not find repository ${branchOwner}/${branchRepo}. Please ensure the repository exists.`,
-        );
-      }
 
-      // 1. Get current Main SHA from the user's own repository
-      await octokit.request('GET /repos/{owner}/{repo}/git/ref/heads/main', {
-        owner: branchOwner,
-        repo: branchRepo,
-      });
-
-      // 2. Create new branch on user's repository
-      // We will base the new branch on the main branch of the user's repo.
-      try {
-        // Get Main SHA from user's repository to ensure existence
-        const { data: originRef } = await octokit.request(
-          'GET /repos/{owner}/{repo}/git/ref/heads/main',
-          {
-            owner: branchOwner,
-            repo: branchRepo,
-          },
-        );
-        const originSha = originRef.object.sha;
-
-        await octokit.request('POST /repos/{owner}/{repo}/git/refs', {
-          owner: branchOwner,
-          repo: branchRepo,
-          ref: `refs/heads/${BRANCH_NAME}`,
-          sha: originSha,
+      // 1. Resolve the base branch: the configured one, else the repo default
+      const baseBranch = targetRepo.branch.trim() || repoData.default_branch;
+      const { data: originRef } = await octokit
+        .request('GET /repos/{owner}/{repo}/git/ref/{ref}', {
+          owner: REPO_OWNER,
+          repo: REPO_NAME,
+          ref: `heads/${baseBranch}`,
+        })
+        .catch(() => {
+          throw new Error(
+            `Base branch "${baseBranch}" does not exist on ${REPO_OWNER}/${REPO_NAME}.`,
+          );
         });
-      } catch (e: any) {
-        console.error('Failed to create branch on repository', e);
-        throw new Error(
-          `Failed to create branch on ${branchOwner}/${branchRepo}. Ensure your token has "repo" scope.`,
-        );
-      }
+      const originSha = originRef.object.sha;
 
-      // 3. Get current file content from user's repository (to edit latest version)
+      // 2. Get the file as it is on the base branch now
       const { data: fileData } = await octokit.request(
         'GET /repos/{owner}/{repo}/contents/{path}',
         {
-          owner: branchOwner,
-          repo: branchRepo,
+          owner: REPO_OWNER,
+          repo: REPO_NAME,
           path: FILE_PATH,
+          ref: originSha,
         },
       );
+      if (Array.isArray(fileData) || fileData.type !== 'file') {
+        throw new Error('Unexpected file type in repository');
+      }
+      const upstreamContent: SkillsData = JSON.parse(
+        decodeBase64(fileData.content.replace(/\n/g, '')),
+      );
 
-      if (!Array.isArray(fileData) && fileData.type === 'file') {
-        const decodedContent = decodeBase64(
-          fileData.content.replace(/\n/g, ''),
+      // 3. Three-way merge: the data this page loaded, the same data with the
+      // pending edits, and upstream. Stop until every conflict is resolved.
+      const localContent = applyChangeSet(data, changeSet);
+      const { data: updatedContent, conflicts } = mergeSkillsData(
+        data,
+        localContent,
+        upstreamContent,
+        conflictResolutions,
+      );
+      setMergeConflicts(conflicts);
+      if (conflicts.some((c) => !conflictResolutions[getConflictKey(c)])) {
+        void messageApi.warning(
+          'The same data was changed upstream. Choose which version to keep for each conflict, then create the PR again.',
         );
-        const currentContent = JSON.parse(decodedContent);
-
-        // Update content locally
-        const updatedContent = { ...currentContent };
-
-        if (prType === 'member') {
-          if (editMode === 'new' && !selectedMember) {
-            // Adding a new member
-            const memberId = `member-${Date.now()}`;
-            const newMember = {
-              id: memberId,
-              name: form.getFieldValue('name'),
-              role: form.getFieldValue('role'),
-              email: form.getFieldValue('email'),
-              github: form.getFieldValue('github'),
-              skills: skills,
-            };
-            updatedContent.members.push(newMember);
-          } else if (editMode === 'edit' && selectedMember) {
-            // Updating member
-            const updatedMember = {
-              ...selectedMember,
-              name: form.getFieldValue('name'),
-              role: form.getFieldValue('role'),
-              email: form.getFieldValue('email'),
-              github: form.getFieldValue('github'),
-              skills: skills,
-            };
-            updatedContent.members = updatedContent.members.map((m: any) =>
-              m.id === selectedMember.id ? updatedMember : m,
+        setMergeErrors([]);
+        return;
+      }
+
+      // A clean merge can still break references, e.g. a skill deleted here
+      // that upstream assigned to a new member
+      const introducedErrors = findIntroducedErrors(
+        upstreamContent,
+        updatedContent,
+      );
+      setMergeErrors(introducedErrors);
+      if (introducedErrors.length > 0) {
+        void messageApi.error(
+          'Merged with upstream, the data would be invalid. Adjust the staged changes or conflict choices and try again.',
+        );
+        return;
+      }
+
+      // Collaborators branch on the repository itself, everyone else on a
+      // fork under their own account (created on first use, reused after)
+      let branchOwner = REPO_OWNER;
+      let branchRepo = REPO_NAME;
+      const useFork = !repoData.permissions?.push;
+      if (useFork) {
+        const { data: fork } = await octokit
+          .request('POST /repos/{owner}/{repo}/forks', {
+            owner: REPO_OWNER,
+            repo: REPO_NAME,
+          })
+          .catch(() => {
+            throw new Error(
+              `You cannot push to ${REPO_OWNER}/${REPO_NAME} and forking it failed. Ensure your token can create repositories.`,
             );
-          }
-        } else if (prType === 'delete-member' && selectedMember) {
-          updatedContent.members = updatedContent.members.filter(
-            (m: any) => m.id !== selectedMember.id,
-          );
-        } else if (prType === 'batch' && batchChanges.length > 0) {
-          // Apply all batch changes
-          for (const change of batchChanges) {
-            if (change.type === 'add-skill') {
-              updatedContent.skills.push(change.data);
-            } else if (change.type === 'update-skill') {
-              updatedContent.skills = updatedContent.skills.map((s: any) =>
-                s.id === change.data.id ? change.data : s,
-              );
-            } else if (change.type === 'delete-skill') {
-              updatedContent.skills = updatedContent.skills.filter(
-                (s: any) => s.id !== change.data.id,
-              );
-            } else if (change.type === 'add-category') {
-              updatedContent.categories.push(change.data);
-            } else if (change.type === 'update-category') {
-              updatedContent.categories = updatedContent.categories.map(
-                (c: any) => (c.id === change.data.id ? change.data : c),
-              );
-            } else if (change.type === 'delete-category') {
-              updatedContent.categories = updatedContent.categories.filter(
-                (c: any) => c.id !== change.data.id,
+          });
+        branchOwner = fork.owner.login;
+        branchRepo = fork.name;
+        void messageApi.info(
+          `No write access to ${REPO_OWNER}/${REPO_NAME}, using your fork ${fork.full_name}`,
+        );
+
+        // Forks are created asynchronously, wait until the fork answers
+        for (let attempt = 0; ; attempt++) {
+          try {
+            await octokit.request('GET /repos/{owner}/{repo}/git/ref/{ref}', {
+              owner: branchOwner,
+              repo: branchRepo,
+              ref: `heads/${fork.default_branch}`,
+            });
+            break;
+          } catch {
+            if (attempt >= FORK_READY_ATTEMPTS) {
+              throw new Error(
+                `Fork ${fork.full_name} is not ready yet. Please try again in a minute.`,
               );
             }
+            await new Promise((resolve) =>
+              setTimeout(resolve, FORK_READY_DELAY_MS),
+            );
           }
         }
+      }
 
-        // 4. Commit file update to user's repository
-        // Get file SHA from the branch we just created on user's repository
-
-        const { data: branchFileData } = await octokit.request(
-          'GET /repos/{owner}/{repo}/contents/{path}',
-          {
-            owner: branchOwner,
-            repo: branchRepo,
-            path: FILE_PATH,
-            ref: BRANCH_NAME,
-          },
-        );
-
-        if (Array.isArray(branchFileData) || branchFileData.type !== 'file') {
-          throw new Error('Unexpected file type in branch');
-        }
-
-        await octokit.request('PUT /repos/{owner}/{repo}/contents/{path}', {
+      // 4. Create new branch on the branch repository, based on the base
+      // branch (forks share objects with their parent, so its SHA works there)
+      try {
+        await octokit.request('POST /repos/{owner}/{repo}/git/refs', {
           owner: branchOwner,
           repo: branchRepo,
-          path: FILE_PATH,
-          message: `chore: ${(() => {
-            if (prType === 'delete-member' && selectedMember) {
-              return `remove member ${selectedMember.name}`;
-            }
-            if (prType === 'batch')
-              return `batch update: ${batchChanges.length} changes`;
-            return `update data for ${form.getFieldValue('name')}`;
-          })()}`,
-          content: encodeBase64(JSON.stringify(updatedContent, null, 2)),
-          branch: BRANCH_NAME,
-          sha: branchFileData.sha,
+          ref: `refs/heads/${BRANCH_NAME}`,
+          sha: originSha,
         });
+      } catch (e: any) {
+        console.error('Failed to create branch on repository', e);
+        throw new Error(
+          `Failed to create branch on ${branchOwner}/${branchRepo}. Ensure your token has "repo" scope.`,
+        );
+      }
 
-        // 5. Create PR on user's repository (from branch to main)
-        const headRef = BRANCH_NAME;
+      // 5. Commit the merged file; the new branch starts at the base commit,
+      // so the file SHA is the one fetched above
+      await octokit.request('PUT /repos/{owner}/{repo}/contents/{path}', {
+        owner: branchOwner,
+        repo: branchRepo,
+        path: FILE_PATH,
+        message: `chore: update data (${summarizeChangeSet(changeSet)})`,
+        content: encodeBase64(formatSkillsData(updatedContent)),
+        branch: BRANCH_NAME,
+        sha: fileData.sha,
+      });
 
-        let prTitle = '';
-        if (prType === 'batch') {
-          prTitle = `Batch Update: ${batchChanges.length} changes`;
-        } else if (prType === 'delete-member' && selectedMember) {
-          prTitle = `Remove Member: ${selectedMember.name}`;
-        } else {
-          prTitle = `Update: ${form.getFieldValue('name')}`;
-        }
+      // 6. Create PR on the target repository (from branch to base); fork
+      // branches are referenced as owner:branch
+      const headRef = useFork ? `${branchOwner}:${BRANCH_NAME}` : BRANCH_NAME;
 
-        const { data: prData } = await octokit.request(
-          'POST /repos/{owner}/{repo}/pulls',
-          {
-            owner: branchOwner,
-            repo: branchRepo,
-            title: prTitle,
-            body: prContent,
-            head: headRef,
-            base: 'main',
-          },
-        );
+      const { data: prData } = await octokit.request(
+        'POST /repos/{owner}/{repo}/pulls',
+        {
+          owner: REPO_OWNER,
+          repo: REPO_NAME,
+          title: `Data Update: ${summarizeChangeSet(changeSet)}`,
+          body: `${generatePRContent(updatedContent, changeSet)}
+${formatDiffMarkdown(diffSkillsData(upstreamContent, updatedContent))}`,
+          head: headRef,
+          base: baseBranch,
+          maintainer_can_modify: useFork,
+        },
+      );
 
-        void messageApi.success('Pull Request created successfully!');
-        window.open(prData.html_url, '_blank');
-        setModalOpen(false);
-      }
+      void messageApi.success('Pull Request created successfully!');
+      window.open(prData.html_url, '_blank');
+      closeModal();
+      setChangeSet([]);
     } catch (error: any) {
       console.error(error);
       const msg = error.message.includes('refs')
-        ? 'Failed to create branch. Check Token Scopes (needs "repo") or Fork status.'
+        ? 'Failed to create branch. Check Token Scopes (needs "repo") or that your fork is up to date.'
         : error.message;
       void messageApi.error(`Failed: ${msg}`);
     } finally {
@@ -322,6 +487,12 @@ export const PRGeneratorPage: React.FC = () => {
     }
   };
 
+  // The data as it will be once every staged change is applied
+  const effectiveData = React.useMemo(
+    () => (data ? applyChangeSet(data, changeSet) : null),
+    [data, changeSet],
+  );
+
   // Calculate role options mixing common roles and existing roles
   const roleOptions = React.useMemo(() => {
     if (!data) return [];
@@ -341,6 +512,7 @@ export const PRGeneratorPage: React.FC = () => {
   const checkForChanges = (
     currentFormValues: MemberFormData,
     currentSkills: MemberSkill[],
+    currentGoals: LearningGoal[],
   ) => {
     if (editMode === 'new') {
       // For new profile, enable if name and role are present
@@ -355,6 +527,11 @@ export const PRGeneratorPage: React.FC = () => {
       (currentFormValues.email || '') !== (selectedMember.email || '');
     const githubChanged =
       (currentFormValues.github || '') !== (selectedMember.github || '');
+    const datesChanged =
+      (currentFormValues.startDate || '') !==
+        (selectedMember.startDate || '') ||
+      (currentFormValues.expectedEndDate || '') !==
+        (selectedMember.expectedEndDate || '');
 
     // Compare skills
     if (currentSkills.length !== selectedMember.skills.length) return true;
@@ -368,24 +545,32 @@ export const PRGeneratorPage: React.FC = () => {
     const skillsChanged =
       JSON.stringify(sortedCurrent) !== JSON.stringify(sortedOriginal);
 
+    const sortGoals = (goals: LearningGoal[]) =>
+      [...goals].sort((a, b) => a.skillId.localeCompare(b.skillId));
+    const goalsChanged =
+      JSON.stringify(sortGoals(currentGoals)) !==
+      JSON.stringify(sortGoals(selectedMember.learningGoals ?? []));
+
     return (
       nameChanged ||
       roleChanged ||
       emailChanged ||
       githubChanged ||
-      skillsChanged
+      datesChanged ||
+      skillsChanged ||
+      goalsChanged
     );
   };
 
   // Trigger check when skills change
   React.useEffect(() => {
     const values = form.getFieldsValue();
-    setHasChanges(checkForChanges(values, skills));
+    setHasChanges(checkForChanges(values, skills, learningGoals));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [skills, editMode, selectedMember]);
+  }, [skills, learningGoals, editMode, selectedMember]);
 
   const onFormValuesChange = (_: any, allValues: MemberFormData) => {
-    setHasChanges(checkForChanges(allValues, skills));
+    setHasChanges(checkForChanges(allValues, skills, learningGoals));
   };
 
   if (loading) {
@@ -396,7 +581,7 @@ export const PRGeneratorPage: React.FC = () => {
     );
   }
 
-  if (error || !data) {
+  if (error || !data || !effectiveData) {
     return (
       <div className='flex items-center justify-center h-96'>
         <Empty description={error || 'No data available'} />
@@ -404,111 +589,18 @@ export const PRGeneratorPage: React.FC = () => {
     );
   }
 
-  const generatePRContent = (formData: MemberFormData) => {
-    const memberId =
-      editMode === 'edit' && selectedMember
-        ? selectedMember.id
-        : `member-${Date.now()}`;
-
-    const newMember = {
-      id: memberId,
-      name: formData.name,
-      role: formData.role,
-      email: formData.email,
-      github: formData.github,
-      skills: skills,
-    };
-
-    const action = editMode === 'new' ? 'Add new' : 'Update';
-
-    const content = `## ${action} Lab Member: ${formData.name}
-
-### Description
-This PR ${editMode === 'new' ? 'adds' : 'updates'} the profile for **${formData.name}** (${formData.role}).
-
-### Changes to \`public/data/skillsData.json\`
-
-${editMode === 'new' ? 'Add the following member to the `members` array:' : 'Replace the existing member entry with:'}
-
-\`\`\`json
-${JSON.stringify(newMember, null, 2)}
-\`\`\`
-
-### Skills Summary
-${skills
-  .map((s) => {
-    const skill = getSkillById(data.skills, s.skillId);
-    const categories = skill?.belongsTo
-      .map((id) => data.categories.find((c) => c.id === id)?.name)
-      .join(', ');
-    return `- **${skill?.name}** (${PROFICIENCY_LABELS[s.proficiency]}) - spans: ${categories}`;
-  })
-  .join('\n')}
-
-### Category Distribution
-${(() => {
-  const weights: Record<string, number> = {};
-  for (const s of skills) {
-    const skill = data.skills.find((sk) => sk.id === s.skillId);
-    if (!skill) continue;
-    for (const catId of skill.belongsTo) {
-      weights[catId] = (weights[catId] || 0) + 1;
-    }
-  }
-  return Object.entries(weights)
-    .map(([catId, count]) => {
-      const cat = data.categories.find((c) => c.id === catId);
-      return `- ${cat?.name}: ${count} skills`;
-    })
-    .join('\n');
-})()}
-
-### Checklist
-- [ ] Member information is accurate
-- [ ] Skills are correctly assigned
-- [ ] Proficiency levels are appropriate
-`;
-
-    setPrContent(content);
-    setPrType('member');
-    setModalOpen(true);
-  };
-
-  const generateRemoveMemberPR = () => {
-    if (!selectedMember) return;
-
-    const content = `## Remove Lab Member: ${selectedMember.name}
-
-### Description
-This PR removes the profile for **${selectedMember.name}** (${selectedMember.role}) from the lab members list.
-
-### Changes to \`public/data/skillsData.json\`
-
-Remove the member entry with ID \`${selectedMember.id}\`.
-
-### Checklist
-- [ ] Confirmed member departure or removal request
-`;
-
-    setPrContent(content);
-    setPrType('delete-member');
-    setModalOpen(true);
-  };
-
-  const copyToClipboard = () => {
-    void navigator.clipboard.writeText(prContent);
-    void messageApi.success('PR content copied to clipboard!');
-  };
-
   const handleEditMember = (member: LabMember) => {
     setEditMode('edit');
     setSelectedMember(member);
     setSkills(member.skills);
+    setLearningGoals(member.learningGoals ?? []);
     form.setFieldsValue({
       name: member.name,
       role: member.role,
       email: member.email,
       github: member.github,
+      startDate: member.startDate,
+      expectedEndDate: member.expectedEndDate,
     });
     setHasChanges(false);
   };
@@ -517,38 +609,85 @@ Remove the member entry with ID \`${selectedMember.id}\`.
     setEditMode('new');
     setSelectedMember(null);
     setSkills([]);
+    setLearningGoals([]);
     form.resetFields();
     setHasChanges(false);
   };
 
-  const handleBatchPR = (changes: any[]) => {
-    setBatchChanges(changes);
-    setPrType('batch');
-
-    const content = `## Batch Update: Skills & Categories
+  const stageChanges = (change: Omit<DataChange, 'id'>) => {
+    setChangeSet((prev) => stageChange(prev, change));
+    void messageApi.success(`Staged: ${change.description}`);
+  };
 
-### Description
-This PR contains ${changes.length} changes to skills and/or categories.
+  const stageMember = (formData: MemberFormData) => {
+    const member: LabMember = {
+      ...selectedMember,
+      id:
+        editMode === 'edit' && selectedMember
+          ? selectedMember.id
+          : `member-${Date.now()}`,
+      name: formData.name,
+      role: formData.role,
+      email: formData.email,
+      github: formData.github,
+      startDate: formData.startDate || undefined,
+      expectedEndDate: formData.expectedEndDate || undefined,
+      skills: skills,
+      learningGoals: learningGoals.length ? learningGoals : undefined,
+    };
+    stageChanges({
+      entity: 'member',
+      action: editMode === 'new' ? 'add' : 'update',
+      data: member,
+      description: `${editMode === 'new' ? 'Add new' : 'Update'} member "${member.name}"`,
+    });
+    // Keep editing the staged version, so later edits fold into it
+    handleEditMember(member);
+  };
 
-### Changes Summary
-${changes.map((c) => `- **${c.type.replace('-', ' ').toUpperCase()}**: ${c.description}`).join('\n')}
+  const stageMemberRemoval = () => {
+    if (!selectedMember) return;
+    stageChanges({
+      entity: 'member',
+      action: 'delete',
+      data: selectedMember,
+      description: `Remove member "${selectedMember.name}"`,
+    });
+    handleNewMember();
+  };
 
-### Detailed Changes
-\`\`\`json
-${JSON.stringify(
-  changes.map((c) => ({ type: c.type, data: c.data })),
-  null,
-  2,
-)}
-\`\`\`
+  // Blocks the review when the staged data would fail validation
+  const reviewChangeSet = () => {
+    const errors = findChangeSetErrors(data, changeSet);
+    if (errors.length > 0) {
+      Modal.error({
+        title: 'Invalid Changes Detected',
+        content: (
+          <ul className='list-disc pl-4'>
+            {errors.map((err, i) => (
+              <li key={i} className='text-red-400'>
+                {err.path}: {err.message}
+              </li>
+            ))}
+          </ul>
+        ),
+      });
+      return;
+    }
+    setModalOpen(true);
+  };
 
-### Checklist
-- [ ] All changes are appropriate
-- [ ] No breaking changes to existing data
-`;
+  // What the change set changes relative to the loaded data; the PR itself
+  // is diffed against upstream once merged
+  const pendingDiffs = modalOpen ? diffSkillsData(data, effectiveData) : [];
+  const prBody = modalOpen
+    ? `${generatePRContent(effectiveData, changeSet)}
+${formatDiffMarkdown(pendingDiffs)}`
+    : '';
 
-    setPrContent(content);
-    setModalOpen(true);
+  const copyToClipboard = () => {
+    void navigator.clipboard.writeText(prBody);
+    void messageApi.success('PR content copied to clipboard!');
   };
 
   return (
@@ -560,14 +699,14 @@ ${JSON.stringify(
           Data Update & PR Generator
         </h1>
         <p className='text-gray-400 max-w-2xl mx-auto'>
-          Add or update lab member profiles and skills. Generate Pull Request
-          content for data updates.
+          Add or update lab member profiles, skills and categories. Stage any
+          combination of edits and submit them together as one Pull Request.
         </p>
       </div>
 
       <div className='grid grid-cols-1 lg:grid-cols-3 gap-6'>
         <MemberList
-          members={data.members}
+          members={effectiveData.members}
           selectedMemberId={selectedMember?.id ?? null}
           onSelectMember={handleEditMember}
           onNewMember={handleNewMember}
@@ -578,28 +717,43 @@ ${JSON.stringify(
           editMode={editMode}
           selectedMember={selectedMember}
           skills={skills}
-          allSkills={data.skills}
-          categories={data.categories}
+          learningGoals={learningGoals}
+          allSkills={effectiveData.skills}
+          categories={effectiveData.categories}
           roleOptions={roleOptions}
           hasChanges={hasChanges}
           onSkillsChange={setSkills}
+          onLearningGoalsChange={setLearningGoals}
           onFormValuesChange={onFormValuesChange}
-          onGeneratePR={generatePRContent}
-          onRemoveMember={generateRemoveMemberPR}
+          onStage={stageMember}
+          onRemoveMember={stageMemberRemoval}
         />
       </div>
 
+      <ChangeSetPanel
+        changes={changeSet}
+        onMove={(from, to) =>
+          setChangeSet((prev) => moveChange(prev, from, to))
+        }
+        onRemove={(changeId) =>
+          setChangeSet((prev) => prev.filter((c) => c.id !== changeId))
+        }
+        onClear={() => setChangeSet([])}
+        onReview={reviewChangeSet}
+      />
+
       <SkillCategoryAdmin
-        categories={data.categories}
-        skills={data.skills}
-        members={data.members}
-        onGenerateBatchPR={handleBatchPR}
+        categories={effectiveData.categories}
+        skills={effectiveData.skills}
+        members={effectiveData.members}
+        onStageChange={stageChanges}
       />
 
       <PRPreviewModal
         open={modalOpen}
-        onClose={() => setModalOpen(false)}
-        prContent={prContent}
+        onClose={closeModal}
+        prContent={prBody}
+        diffs={pendingDiffs}
         githubToken={githubToken}
         onGithubTokenChange={setGithubToken}
         onCreatePR={createPR}
@@ -607,6 +761,13 @@ ${JSON.stringify(
         creatingPR={creatingPR}
         targetRepo={targetRepo}
         onTargetRepoChange={setTargetRepo}
+        defaultBranch={defaultBranch}
+        conflicts={mergeConflicts}
+        mergeErrors={mergeErrors}
+        conflictResolutions={conflictResolutions}
+        onConflictResolutionChange={(key, resolution) =>
+          setConflictResolutions((prev) => ({ ...prev, [key]: resolution }))
+        }
       />
     </div>
   );
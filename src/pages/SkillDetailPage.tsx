@@ -0,0 +1,295 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Avatar, Button, Card, Empty, Spin, Tag, Tooltip } from 'antd';
+import {
+  AimOutlined,
+  ArrowLeftOutlined,
+  UserOutlined,
+} from '@ant-design/icons';
+import {
+  useSkillsData,
+  getMembersWithSkill,
+  getOpenLearningGoal,
+  getSkillById,
+  getSkillCategories,
+  PROFICIENCY_ORDER,
+} from '../hooks/useSkillsData';
+import type { LabMember, ProficiencyLevel, Subcategory } from '../types/types';
+import { PROFICIENCY_COLORS, PROFICIENCY_LABELS } from '../types/types';
+import GapStatusTag from '../components/GapStatusTag';
+import SkillLink from '../components/SkillLink';
+
+export const SkillDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { data, loading, error, gaps } = useSkillsData();
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Spin size='large' tip='Loading skill...' fullscreen />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Empty description={error || 'No data available'} />
+      </div>
+    );
+  }
+
+  const skill = id ? getSkillById(data.skills, id) : undefined;
+  if (!skill) {
+    return (
+      <div className='flex flex-col items-center justify-center h-96 gap-4'>
+        <Empty description={`No skill with id "${id}"`} />
+        <Link to='/gaps'>
+          <Button icon={<ArrowLeftOutlined />}>Back to Gap Analysis</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const categories = getSkillCategories(skill, data.categories);
+  const gap = gaps.find((g) => g.skill.id === skill.id);
+  const holders = getMembersWithSkill(data.members, skill.id);
+
+  const levelOf = (member: LabMember) =>
+    member.skills.find((s) => s.skillId === skill.id)!.proficiency;
+  const holdersByLevel = [...PROFICIENCY_ORDER]
+    .reverse()
+    .map((level: ProficiencyLevel) => ({
+      level,
+      members: holders.filter((m) => levelOf(m) === level),
+    }));
+
+  const parent = skill.parentId
+    ? getSkillById(data.skills, skill.parentId)
+    : undefined;
+  const prerequisites = (skill.prerequisites ?? [])
+    .map((prereqId) => getSkillById(data.skills, prereqId))
+    .filter((s) => s !== undefined);
+  const specializations = data.skills.filter((s) => s.parentId === skill.id);
+  const dependents = data.skills.filter((s) =>
+    s.prerequisites?.includes(skill.id),
+  );
+  const skillList = (list: Subcategory[]) =>
+    list.map((s, i) => (
+      <span key={s.id}>
+        {i > 0 && ', '}
+        <SkillLink skillId={s.id} className='text-gray-200 hover:underline'>
+          {s.name}
+        </SkillLink>
+      </span>
+    ));
+
+  // Skills sharing a category, most shared categories first
+  const related = data.skills
+    .filter((other) => other.id !== skill.id)
+    .map((other) => ({
+      skill: other,
+      shared: categories.filter((c) => other.belongsTo.includes(c.id)),
+      coHolders: holders.filter((m) =>
+        m.skills.some((s) => s.skillId === other.id),
+      ).length,
+    }))
+    .filter((r) => r.shared.length > 0)
+    .sort(
+      (a, b) =>
+        b.shared.length - a.shared.length ||
+        b.coHolders - a.coHolders ||
+        a.skill.name.localeCompare(b.skill.name),
+    );
+
+  return (
+    <div className='space-y-8'>
+      {/* Header */}
+      <Card className='glass-card'>
+        <div className='flex flex-wrap items-start justify-between gap-4'>
+          <div className='min-w-0'>
+            <h1 className='text-3xl font-bold text-white mb-2'>{skill.name}</h1>
+            {skill.description && (
+              <p className='text-gray-400 mb-3 max-w-2xl'>
+                {skill.description}
+              </p>
+            )}
+            <div className='flex flex-wrap gap-1'>
+              {categories.map((cat) => (
+                <Link key={cat.id} to={`/categories/${cat.id}`}>
+                  <Tag
+                    style={{
+                      backgroundColor: `${cat.color}20`,
+                      color: cat.color,
+                      border: `1px solid ${cat.color}`,
+                    }}
+                  >
+                    {cat.name}
+                  </Tag>
+                </Link>
+              ))}
+            </div>
+            {(parent ||
+              prerequisites.length > 0 ||
+              specializations.length > 0 ||
+              dependents.length > 0) && (
+              <div className='text-sm text-gray-400 mt-3 space-y-1'>
+                {parent && <div>Specializes {skillList([parent])}</div>}
+                {prerequisites.length > 0 && (
+                  <div>Requires {skillList(prerequisites)}</div>
+                )}
+                {specializations.length > 0 && (
+                  <div>Specializations: {skillList(specializations)}</div>
+                )}
+                {dependents.length > 0 && (
+                  <div>Needed for {skillList(dependents)}</div>
+                )}
+              </div>
+            )}
+          </div>
+          <Link to={`/overview?skill=${skill.id}`}>
+            <Button icon={<AimOutlined />}>Show in Skill Chart</Button>
+          </Link>
+        </div>
+      </Card>
+
+      <div className='grid grid-cols-1 lg:grid-cols-3 gap-6'>
+        {/* Gap status */}
+        <Card className='glass-card'>
+          <h2 className='text-xl font-semibold text-white mb-4'>Gap Status</h2>
+          {gap && (
+            <div className='space-y-3'>
+              <GapStatusTag status={gap.status} />
+              <div className='text-gray-300'>
+                {gap.currentCoverage} of {gap.rule.minMembers} members at{' '}
+                {PROFICIENCY_LABELS[gap.rule.minProficiency]} or above
+              </div>
+              <div className='text-gray-300'>
+                {gap.expertCount} of {gap.rule.minExperts}{' '}
+                {gap.rule.minExperts === 1 ? 'expert' : 'experts'}
+              </div>
+              {gap.recommendation && (
+                <p className='text-gray-400 text-sm italic'>
+                  {gap.recommendation}
+                </p>
+              )}
+              {gap.learners.length > 0 ? (
+                <div className='pt-3 border-t border-white/10'>
+                  <div className='text-gray-400 text-sm mb-2'>
+                    Once current learning goals are reached:
+                  </div>
+                  <GapStatusTag status={gap.plannedStatus} />
+                  <div className='space-y-1 mt-2'>
+                    {gap.learners.map((member) => {
+                      const goal = getOpenLearningGoal(member, skill.id)!;
+                      return (
+                        <div key={member.id} className='text-sm'>
+                          <Link
+                            to={`/members/${member.id}`}
+                            className='text-white hover:underline'
+                          >
+                            {member.name}
+                          </Link>
+                          <span className='text-gray-400'>
+                            {' '}
+                            → {PROFICIENCY_LABELS[goal.targetLevel]}
+                            {goal.targetDate && ` by ${goal.targetDate}`}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ) : (
+                gap.status !== 'healthy' && (
+                  <p className='text-red-400 text-sm'>
+                    Nobody has a learning goal for this skill yet.
+                  </p>
+                )
+              )}
+            </div>
+          )}
+        </Card>
+
+        {/* Holders */}
+        <Card className='glass-card lg:col-span-2'>
+          <h2 className='text-xl font-semibold text-white mb-4'>
+            Holders ({holders.length})
+          </h2>
+          {holders.length === 0 ? (
+            <Empty description='Nobody in the lab holds this skill yet' />
+          ) : (
+            <div className='space-y-3'>
+              {holdersByLevel.map(({ level, members }) => (
+                <div key={level} className='flex items-start gap-3'>
+                  <span
+                    className='text-xs w-24 flex-shrink-0 pt-1'
+                    style={{ color: PROFICIENCY_COLORS[level] }}
+                  >
+                    {PROFICIENCY_LABELS[level]}
+                  </span>
+                  <div className='flex flex-wrap gap-2'>
+                    {members.length === 0 && (
+                      <span className='text-gray-600 text-sm'>—</span>
+                    )}
+                    {members.map((member) => (
+                      <Tooltip key={member.id} title={member.role}>
+                        <Link
+                          to={`/members/${member.id}`}
+                          className='flex items-center gap-1.5 px-2 py-1 rounded hover:brightness-110'
+                          style={{
+                            backgroundColor: `${PROFICIENCY_COLORS[level]}25`,
+                          }}
+                        >
+                          <Avatar
+                            size={18}
+                            icon={<UserOutlined />}
+                            src={member.avatar}
+                          />
+                          <span className='text-white text-sm'>
+                            {member.name}
+                          </span>
+                        </Link>
+                      </Tooltip>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+
+      {/* Related skills */}
+      <Card className='glass-card'>
+        <h2 className='text-xl font-semibold text-white mb-4'>
+          Related Skills
+        </h2>
+        {related.length === 0 ? (
+          <p className='text-gray-400'>No other skills share its categories.</p>
+        ) : (
+          <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4'>
+            {related.map(({ skill: other, shared, coHolders }) => (
+              <div
+                key={other.id}
+                className='p-4 rounded-lg bg-white/5 border border-white/10'
+                style={{ borderLeft: `4px solid ${shared[0].color}` }}
+              >
+                <h3 className='font-medium text-white'>
+                  <SkillLink skillId={other.id}>{other.name}</SkillLink>
+                </h3>
+                <div className='text-sm text-gray-400 mt-1'>
+                  Shares {shared.map((c) => c.name).join(', ')}
+                  {coHolders > 0 &&
+                    ` • ${coHolders} ${coHolders === 1 ? 'holder' : 'holders'} in common`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default SkillDetailPage;
@@ -0,0 +1,289 @@
+import React, { useMemo, useState } from 'react';
+import { Card, Empty, Select, Spin, Table, Tag, Tooltip } from 'antd';
+import { CheckCircleOutlined, WarningOutlined } from '@ant-design/icons';
+import {
+  useSkillsData,
+  calculateProjectStaffing,
+  getMemberBlendedColor,
+  getSkillById,
+  getSkillCategories,
+} from '../hooks/useSkillsData';
+import SkillLink from '../components/SkillLink';
+import type { MemberProjectFit, ProjectRequirement } from '../types/types';
+import { PROFICIENCY_COLORS, PROFICIENCY_LABELS } from '../types/types';
+
+export const StaffingPage: React.FC = () => {
+  const { data, loading, error, categoryWeights } = useSkillsData();
+  const [projectId, setProjectId] = useState<string | null>(null);
+
+  const projects = useMemo(() => data?.projects ?? [], [data]);
+  const project =
+    projects.find((p) => p.id === projectId) ?? projects[0] ?? null;
+
+  const staffing = useMemo(
+    () => (data && project ? calculateProjectStaffing(data, project) : null),
+    [data, project],
+  );
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Spin size='large' tip='Loading projects...' fullscreen />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Empty description={error || 'No data available'} />
+      </div>
+    );
+  }
+
+  const skillName = (skillId: string) =>
+    getSkillById(data.skills, skillId)?.name ?? skillId;
+
+  const requirementColumns = [
+    {
+      title: 'Skill',
+      key: 'skill',
+      render: (_: unknown, record: ProjectRequirement) => {
+        const skill = getSkillById(data.skills, record.skillId);
+        return (
+          <div>
+            <SkillLink
+              skillId={record.skillId}
+              className='font-medium text-white hover:underline'
+            >
+              {skillName(record.skillId)}
+            </SkillLink>
+            <div className='flex flex-wrap gap-1 mt-1'>
+              {skill &&
+                getSkillCategories(skill, data.categories).map((cat) => (
+                  <span
+                    key={cat.id}
+                    className='text-xs px-2 py-0.5 rounded-full'
+                    style={{
+                      backgroundColor: `${cat.color}20`,
+                      color: cat.color,
+                    }}
+                  >
+                    {cat.name}
+                  </span>
+                ))}
+            </div>
+          </div>
+        );
+      },
+    },
+    {
+      title: 'Minimum Level',
+      dataIndex: 'minProficiency',
+      key: 'level',
+      render: (level: ProjectRequirement['minProficiency']) => (
+        <Tag color={PROFICIENCY_COLORS[level]}>{PROFICIENCY_LABELS[level]}</Tag>
+      ),
+    },
+    {
+      title: 'Qualified Members',
+      key: 'qualified',
+      render: (_: unknown, record: ProjectRequirement) => {
+        const qualified = staffing!.fits.filter((f) =>
+          f.metSkillIds.includes(record.skillId),
+        );
+        const close = staffing!.fits.filter((f) =>
+          f.belowMinimumSkillIds.includes(record.skillId),
+        );
+        if (qualified.length > 0) {
+          return (
+            <span className='text-gray-300'>
+              {qualified.map((f) => f.member.name).join(', ')}
+            </span>
+          );
+        }
+        return (
+          <div>
+            <Tag icon={<WarningOutlined />} color='error'>
+              Nobody qualifies
+            </Tag>
+            {close.length > 0 && (
+              <div className='text-xs text-gray-400 mt-1'>
+                Below the level: {close.map((f) => f.member.name).join(', ')}
+              </div>
+            )}
+          </div>
+        );
+      },
+    },
+  ];
+
+  const fitColumns = [
+    {
+      title: 'Member',
+      key: 'member',
+      render: (_: unknown, record: MemberProjectFit) => (
+        <div className='flex items-center gap-2'>
+          <span
+            className='w-3 h-3 rounded-full inline-block'
+            style={{
+              backgroundColor: getMemberBlendedColor(
+                categoryWeights[record.member.id] ?? {},
+                data.categories,
+              ),
+            }}
+          />
+          <span className='font-medium text-white'>{record.member.name}</span>
+          <span className='text-xs text-gray-400'>{record.member.role}</span>
+        </div>
+      ),
+    },
+    {
+      title: 'Score',
+      dataIndex: 'score',
+      key: 'score',
+      sorter: (a: MemberProjectFit, b: MemberProjectFit) => a.score - b.score,
+    },
+    {
+      title: 'Meets',
+      key: 'meets',
+      render: (_: unknown, record: MemberProjectFit) => (
+        <div className='flex flex-wrap gap-1'>
+          {record.metSkillIds.map((id) => (
+            <SkillLink key={id} skillId={id}>
+              <Tag color='green'>{skillName(id)}</Tag>
+            </SkillLink>
+          ))}
+          {record.belowMinimumSkillIds.map((id) => (
+            <Tooltip key={id} title='Held below the required level'>
+              <SkillLink skillId={id}>
+                <Tag>{skillName(id)}</Tag>
+              </SkillLink>
+            </Tooltip>
+          ))}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className='space-y-8'>
+      {/* Header */}
+      <div className='text-center'>
+        <h1 className='text-4xl font-bold bg-gradient-to-r from-emerald-400 via-teal-400 to-cyan-400 bg-clip-text text-transparent mb-4'>
+          Project Staffing
+        </h1>
+        <p className='text-gray-400 max-w-2xl mx-auto'>
+          Match lab members against the skills a project needs. Members are
+          scored by the proficiency of each requirement they meet.
+        </p>
+      </div>
+
+      {!project || !staffing ? (
+        <Card className='glass-card'>
+          <Empty description='No projects defined yet. Add a "projects" list to skillsData.json to get staffing suggestions.' />
+        </Card>
+      ) : (
+        <>
+          <Card className='glass-card !mb-10'>
+            <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+              <div>
+                <h2 className='text-xl font-semibold text-white mb-1'>
+                  {project.name}
+                </h2>
+                {project.description && (
+                  <p className='text-gray-400 text-sm'>{project.description}</p>
+                )}
+              </div>
+              <Select
+                value={project.id}
+                onChange={setProjectId}
+                className='min-w-[220px]'
+                options={projects.map((p) => ({ value: p.id, label: p.name }))}
+              />
+            </div>
+            <Table
+              dataSource={project.requirements}
+              columns={requirementColumns}
+              rowKey='skillId'
+              pagination={false}
+              style={{ background: 'transparent' }}
+              scroll={{ x: 'max-content' }}
+            />
+          </Card>
+
+          <Card className='glass-card !mb-10'>
+            <h2 className='text-xl font-semibold text-white mb-4'>
+              Suggested Team
+            </h2>
+            {staffing.unfillable.length > 0 ? (
+              <p className='text-orange-400 text-sm mb-4'>
+                <WarningOutlined className='mr-2' />
+                {staffing.unfillable.length} of {project.requirements.length}{' '}
+                requirements cannot be filled from the lab:{' '}
+                {staffing.unfillable.map((r, i) => (
+                  <span key={r.skillId}>
+                    {i > 0 && ', '}
+                    <SkillLink skillId={r.skillId}>
+                      {skillName(r.skillId)}
+                    </SkillLink>
+                  </span>
+                ))}
+              </p>
+            ) : (
+              <p className='text-green-400 text-sm mb-4'>
+                <CheckCircleOutlined className='mr-2' />
+                Every requirement is covered by {staffing.team.length}{' '}
+                {staffing.team.length === 1 ? 'member' : 'members'}.
+              </p>
+            )}
+            <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4'>
+              {staffing.team.map((fit) => (
+                <div
+                  key={fit.member.id}
+                  className='p-4 rounded-lg bg-white/5 border border-white/10'
+                  style={{
+                    borderLeft: `4px solid ${getMemberBlendedColor(
+                      categoryWeights[fit.member.id] ?? {},
+                      data.categories,
+                    )}`,
+                  }}
+                >
+                  <h3 className='font-medium text-white'>{fit.member.name}</h3>
+                  <div className='text-xs text-gray-400 mb-2'>
+                    {fit.member.role}
+                  </div>
+                  <div className='flex flex-wrap gap-1'>
+                    {fit.metSkillIds.map((id) => (
+                      <SkillLink key={id} skillId={id}>
+                        <Tag color='green'>{skillName(id)}</Tag>
+                      </SkillLink>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          <Card className='glass-card'>
+            <h2 className='text-xl font-semibold text-white mb-4'>
+              All Members
+            </h2>
+            <Table
+              dataSource={staffing.fits.filter(
+                (f) => f.metSkillIds.length || f.belowMinimumSkillIds.length,
+              )}
+              columns={fitColumns}
+              rowKey={(record) => record.member.id}
+              pagination={{ pageSize: 10 }}
+              style={{ background: 'transparent' }}
+              scroll={{ x: 'max-content' }}
+            />
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StaffingPage;
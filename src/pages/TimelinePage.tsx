@@ -0,0 +1,275 @@
+import React, { useMemo, useState } from 'react';
+import { Card, Empty, Segmented, Select, Spin, Table, Tag } from 'antd';
+import {
+  CheckCircleOutlined,
+  ExclamationCircleOutlined,
+  WarningOutlined,
+} from '@ant-design/icons';
+import * as d3 from 'd3';
+import {
+  useSkillsData,
+  calculateGapTimeline,
+  countCategoryHolders,
+} from '../hooks/useSkillsData';
+import type { SkillGap, TimelinePoint, TimelineSeries } from '../types/types';
+import TimelineChart from '../components/TimelineChart';
+import SkillLink from '../components/SkillLink';
+import { todayISODate } from '../utils/dates';
+
+type Grouping = 'category' | 'skill';
+type Metric = keyof Omit<TimelinePoint, 'date'>;
+
+interface GapProgress {
+  gap: SkillGap; // as flagged on the comparison date
+  current: SkillGap;
+}
+
+export const TimelinePage: React.FC = () => {
+  const { data, loading, error } = useSkillsData();
+  const [grouping, setGrouping] = useState<Grouping>('category');
+  const [metric, setMetric] = useState<Metric>('coverage');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [compareDate, setCompareDate] = useState<string | null>(null);
+
+  const timeline = useMemo(
+    () => (data ? calculateGapTimeline(data, todayISODate()) : []),
+    [data],
+  );
+
+  const series = useMemo<TimelineSeries[]>(() => {
+    if (!data) return [];
+
+    if (grouping === 'skill') {
+      const skillColor = d3.scaleOrdinal(d3.schemeTableau10);
+      return data.skills
+        .filter((s) => selectedIds.length === 0 || selectedIds.includes(s.id))
+        .map((skill) => ({
+          id: skill.id,
+          name: skill.name,
+          color: skillColor(skill.id),
+          points: timeline.map(({ date, gaps }) => {
+            const gap = gaps.find((g) => g.skill.id === skill.id);
+            return {
+              date,
+              coverage: gap?.currentCoverage ?? 0,
+              expertCount: gap?.expertCount ?? 0,
+            };
+          }),
+        }));
+    }
+
+    // Category totals count each member once, however many skills they hold
+    return data.categories
+      .filter((c) => selectedIds.length === 0 || selectedIds.includes(c.id))
+      .map((category) => ({
+        id: category.id,
+        name: category.name,
+        color: category.color,
+        points: timeline.map(({ date, data: snapshot }) => ({
+          date,
+          ...countCategoryHolders(snapshot, category.id),
+        })),
+      }));
+  }, [data, grouping, selectedIds, timeline]);
+
+  // Compare the gaps flagged on a past date with today's state
+  const pastDates = timeline.slice(0, -1).map((s) => s.date);
+  const effectiveCompareDate = compareDate ?? pastDates[0] ?? null;
+
+  const compareSnapshot = timeline.find((s) => s.date === effectiveCompareDate);
+  const currentSnapshot = timeline[timeline.length - 1];
+  const gapProgress: GapProgress[] =
+    compareSnapshot && compareSnapshot !== currentSnapshot
+      ? compareSnapshot.gaps
+          .filter((gap) => gap.recommendation)
+          .map((gap) => ({
+            gap,
+            current: currentSnapshot.gaps.find(
+              (g) => g.skill.id === gap.skill.id,
+            )!,
+          }))
+          .filter((p) => p.current)
+      : [];
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Spin size='large' tip='Loading history...' fullscreen />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className='flex items-center justify-center h-96'>
+        <Empty description={error || 'No data available'} />
+      </div>
+    );
+  }
+
+  const closedCount = gapProgress.filter(
+    (p) => !p.current.recommendation,
+  ).length;
+
+  const progressColumns = [
+    {
+      title: 'Skill',
+      key: 'skill',
+      render: (_: unknown, record: GapProgress) => (
+        <SkillLink
+          skillId={record.gap.skill.id}
+          className='font-medium text-white hover:underline'
+        >
+          {record.gap.skill.name}
+        </SkillLink>
+      ),
+    },
+    {
+      title: `Flagged on ${effectiveCompareDate}`,
+      key: 'then',
+      render: (_: unknown, record: GapProgress) => (
+        <div>
+          <span className='text-gray-400 text-sm italic'>
+            {record.gap.recommendation}
+          </span>
+          <div className='text-xs text-gray-500'>
+            {record.gap.currentCoverage} members • {record.gap.expertCount}{' '}
+            experts
+          </div>
+        </div>
+      ),
+    },
+    {
+      title: 'Now',
+      key: 'now',
+      render: (_: unknown, record: GapProgress) => (
+        <div className='text-sm text-gray-300'>
+          {record.current.currentCoverage} members •{' '}
+          {record.current.expertCount} experts
+        </div>
+      ),
+    },
+    {
+      title: 'Status',
+      key: 'status',
+      render: (_: unknown, record: GapProgress) => {
+        if (!record.current.recommendation) {
+          return (
+            <Tag icon={<CheckCircleOutlined />} color='success'>
+              Closed
+            </Tag>
+          );
+        }
+        if (
+          record.current.currentCoverage > record.gap.currentCoverage ||
+          record.current.expertCount > record.gap.expertCount
+        ) {
+          return (
+            <Tag icon={<ExclamationCircleOutlined />} color='processing'>
+              Improving
+            </Tag>
+          );
+        }
+        return (
+          <Tag icon={<WarningOutlined />} color='warning'>
+            Open
+          </Tag>
+        );
+      },
+    },
+  ];
+
+  return (
+    <div className='space-y-8'>
+      {/* Header */}
+      <div className='text-center'>
+        <h1 className='text-4xl font-bold bg-gradient-to-r from-sky-400 via-indigo-400 to-purple-400 bg-clip-text text-transparent mb-4'>
+          Skill Evolution Timeline
+        </h1>
+        <p className='text-gray-400 max-w-2xl mx-auto'>
+          How team coverage and expertise changed over time, reconstructed from
+          the proficiency history recorded on each member's skills.
+        </p>
+      </div>
+
+      {timeline.length < 2 ? (
+        <Card className='glass-card'>
+          <Empty description='No proficiency history recorded yet. History is added whenever a level is changed through Update Data.' />
+        </Card>
+      ) : (
+        <>
+          <Card className='glass-card !mb-10'>
+            <div className='flex flex-wrap items-center gap-3 mb-4'>
+              <Segmented
+                value={grouping}
+                onChange={(v) => {
+                  setGrouping(v as Grouping);
+                  setSelectedIds([]);
+                }}
+                options={[
+                  { label: 'Per Category', value: 'category' },
+                  { label: 'Per Skill', value: 'skill' },
+                ]}
+              />
+              <Segmented
+                value={metric}
+                onChange={(v) => setMetric(v as Metric)}
+                options={[
+                  { label: 'Coverage', value: 'coverage' },
+                  { label: 'Experts', value: 'expertCount' },
+                ]}
+              />
+              <Select
+                mode='multiple'
+                allowClear
+                placeholder={
+                  grouping === 'skill' ? 'All skills' : 'All categories'
+                }
+                value={selectedIds}
+                onChange={setSelectedIds}
+                className='min-w-[240px] flex-1'
+                maxTagCount='responsive'
+                options={(grouping === 'skill'
+                  ? data.skills
+                  : data.categories
+                ).map((item) => ({ value: item.id, label: item.name }))}
+              />
+            </div>
+            <TimelineChart series={series} metric={metric} />
+          </Card>
+
+          <Card className='glass-card'>
+            <div className='flex flex-wrap items-center justify-between gap-3 mb-4'>
+              <div>
+                <h2 className='text-xl font-semibold text-white mb-1'>
+                  Were Earlier Gaps Closed?
+                </h2>
+                <p className='text-gray-400 text-sm'>
+                  {gapProgress.length === 0
+                    ? 'No gaps were flagged on this date.'
+                    : `${closedCount} of ${gapProgress.length} gaps flagged on this date are now closed.`}
+                </p>
+              </div>
+              <Select
+                value={effectiveCompareDate}
+                onChange={setCompareDate}
+                className='min-w-[160px]'
+                options={pastDates.map((d) => ({ value: d, label: d }))}
+              />
+            </div>
+            <Table
+              dataSource={gapProgress}
+              columns={progressColumns}
+              rowKey={(record) => record.gap.skill.id}
+              pagination={{ pageSize: 10 }}
+              style={{ background: 'transparent' }}
+              scroll={{ x: 'max-content' }}
+            />
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TimelinePage;
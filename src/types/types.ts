@@ -5,6 +5,8 @@ export interface Subcategory {
   description?: string;
   // Skills can belong to multiple categories - this creates the overlap!
   belongsTo: string[]; // array of category IDs
+  parentId?: string; // broader skill this one specializes
+  prerequisites?: string[]; // skill IDs to learn first
 }
 
 export interface SkillCategory {
@@ -35,10 +37,33 @@ export const PROFICIENCY_COLORS: Record<ProficiencyLevel, string> = {
   expert: '#d770ad', // Pinkish Purple
 };
 
+// Relative weight of each level when scoring members
+export const PROFICIENCY_WEIGHTS: Record<ProficiencyLevel, number> = {
+  beginner: 1,
+  intermediate: 2,
+  advanced: 3,
+  expert: 4,
+};
+
+// A dated proficiency level, recorded whenever a member's level changes
+export interface ProficiencyChange {
+  date: string; // ISO date (YYYY-MM-DD)
+  proficiency: ProficiencyLevel;
+}
+
 // Member skill entry - just references the skill ID and proficiency
 export interface MemberSkill {
   skillId: string; // references a skill in the skills array
   proficiency: ProficiencyLevel;
+  lastVerified?: string; // ISO date the current level was last confirmed
+  history?: ProficiencyChange[]; // oldest first, last entry matches proficiency
+}
+
+// A skill a member is working towards
+export interface LearningGoal {
+  skillId: string; // references a skill in the skills array
+  targetLevel: ProficiencyLevel;
+  targetDate?: string; // YYYY-MM-DD
 }
 
 // Lab member
@@ -49,7 +74,10 @@ export interface LabMember {
   role: string;
   email?: string;
   github?: string;
+  startDate?: string; // YYYY-MM-DD
+  expectedEndDate?: string; // YYYY-MM-DD, e.g. planned graduation
   skills: MemberSkill[];
+  learningGoals?: LearningGoal[];
 }
 
 // Full data structure - skills are now a separate array
@@ -57,13 +85,342 @@ export interface SkillsData {
   categories: SkillCategory[];
   skills: Subcategory[]; // all skills with their category overlaps
   members: LabMember[];
+  projects?: Project[]; // skill requirements used by the staffing view
+  gapPolicy?: GapPolicy; // thresholds for gap analysis, defaults apply if omitted
+}
+
+// Homepage configuration (public/data/homeConfig.json)
+export interface HomeConfig {
+  hero: {
+    title: string;
+    subtitle: string;
+    description: string;
+  };
+  lab: {
+    name: string;
+    fullName: string;
+    institution: string;
+    description: string;
+    website?: string;
+    director?: {
+      name: string;
+      title: string;
+      email?: string;
+    };
+  };
+  features: Array<{
+    icon: string;
+    title: string;
+    description: string;
+  }>;
+  statistics: {
+    showStats: boolean;
+    customStats: Array<{
+      title: string;
+      value: number;
+      suffix?: string;
+    }>;
+  };
+  quickLinks: Array<{
+    title: string;
+    description: string;
+    link: string;
+    icon: string;
+  }>;
 }
 
 // For gap analysis
+export type GapStatus = 'no-coverage' | 'no-expert' | 'limited' | 'healthy';
+
+export interface GapRule {
+  minMembers?: number; // fewer holders than this is a single point of failure
+  minExperts?: number; // fewer experts than this triggers a warning
+  minProficiency?: ProficiencyLevel; // holders below this level don't count
+  recommendations?: Partial<Record<Exclude<GapStatus, 'healthy'>, string>>;
+}
+
+export type ResolvedGapRule = Required<GapRule> & {
+  recommendations: Record<Exclude<GapStatus, 'healthy'>, string>;
+};
+
+// Rules are layered: default, then the skill's categories, then the skill
+export interface GapPolicy {
+  default?: GapRule;
+  categories?: Record<string, GapRule>; // keyed by category ID
+  skills?: Record<string, GapRule>; // keyed by skill ID
+}
+
 export interface SkillGap {
   skill: Subcategory;
   categories: SkillCategory[];
   currentCoverage: number;
   expertCount: number;
+  status: GapStatus;
+  rule: ResolvedGapRule; // the thresholds this skill was judged against
   recommendation: string;
+  learners: LabMember[]; // members with an open goal above their current level
+  plannedCoverage: number; // once every open goal is reached
+  plannedExpertCount: number;
+  plannedStatus: GapStatus;
+}
+
+// For data validation
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  path: string; // JSON path of the offending value, e.g. $.members[2].skills[0].skillId
+  message: string;
+}
+
+export interface ValidationReport {
+  // False when the file is too malformed to render at all
+  usable: boolean;
+  issues: ValidationIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// For the skill evolution timeline
+export interface GapSnapshot {
+  date: string; // ISO date (YYYY-MM-DD)
+  data: SkillsData; // members' skills as they were on this date
+  gaps: SkillGap[];
+}
+
+export interface TimelinePoint {
+  date: string;
+  coverage: number;
+  expertCount: number;
+}
+
+export interface TimelineSeries {
+  id: string;
+  name: string;
+  color: string;
+  points: TimelinePoint[];
+}
+
+// One outline on a category radar, e.g. a member's category weights
+export interface RadarSeries {
+  id: string;
+  name: string;
+  color: string;
+  values: Record<string, number>; // category id -> value
+}
+
+// For bus-factor / succession analysis
+export interface DepartureImpact {
+  member: LabMember;
+  lostSkills: Subcategory[]; // nobody else holds these at all
+  lostSeniorSkills: Subcategory[]; // sole advanced/expert holder
+  lostCategories: SkillCategory[]; // no advanced/expert holder left anywhere in the category
+  worsenedGaps: { before: SkillGap; after: SkillGap }[];
+  riskScore: number;
+}
+
+export interface SkillBusFactor {
+  skill: Subcategory;
+  categories: SkillCategory[];
+  busFactor: number; // advanced/expert holders who would all have to leave
+  seniorHolders: LabMember[];
+}
+
+// What-if simulation: members gone by a future date plus hand-picked departures
+export interface DepartureScenario {
+  date?: string; // YYYY-MM-DD
+  removedMemberIds: string[];
+}
+
+// A project (grant deliverable, competition, ...) and the skills it needs
+export interface ProjectRequirement {
+  skillId: string;
+  minProficiency: ProficiencyLevel;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description?: string;
+  requirements: ProjectRequirement[];
+}
+
+// For the staffing view
+export interface MemberProjectFit {
+  member: LabMember;
+  score: number; // sum of proficiency weights over the requirements they meet
+  metSkillIds: string[];
+  belowMinimumSkillIds: string[]; // held, but under the required level
+}
+
+export interface ProjectStaffing {
+  project: Project;
+  fits: MemberProjectFit[]; // best fit first
+  team: MemberProjectFit[]; // small team that covers every fillable requirement
+  unfillable: ProjectRequirement[];
+}
+
+// For category detail pages
+export interface CategoryOverlap {
+  category: SkillCategory;
+  skills: Subcategory[]; // skills belonging to both categories
+}
+
+export interface CategoryHealth {
+  category: SkillCategory;
+  gaps: SkillGap[]; // one per skill in the category
+  score: number; // 0-100, 100 when every skill is healthy
+  contributors: { member: LabMember; weight: number }[]; // strongest first
+  overlaps: CategoryOverlap[];
+  uncovered: Subcategory[];
+}
+
+// For the member comparison matrix
+export type SkillOverlapKind =
+  | 'shared'
+  | 'complementary'
+  | 'partial'
+  | 'unique';
+
+export interface SkillComparisonRow {
+  skill: Subcategory;
+  levels: (ProficiencyLevel | null)[]; // one per compared member, null if not held
+  kind: SkillOverlapKind;
+  delta: number; // levels between the strongest and weakest holder
+}
+
+// For the skill co-occurrence network
+export interface CooccurrenceNode {
+  skill: Subcategory;
+  holders: number;
+  community: number; // cluster of skills that tend to be held together
+  bridgeScore: number; // other communities this skill links into
+}
+
+export interface CooccurrenceLink {
+  source: string; // skill id
+  target: string; // skill id
+  weight: number; // members holding both skills
+}
+
+export interface CooccurrenceGraph {
+  nodes: CooccurrenceNode[];
+  links: CooccurrenceLink[];
+}
+
+// For mentor–mentee matching
+export interface MentorPairing {
+  skill: Subcategory;
+  mentor: LabMember;
+  mentorLevel: ProficiencyLevel;
+  mentee: LabMember;
+  menteeLevel: ProficiencyLevel;
+  affinity: number; // 0-1, cosine similarity of their category weights
+  rationale: string;
+}
+
+export interface MentorshipPlan {
+  pairings: MentorPairing[];
+  unmatched: {
+    skill: Subcategory;
+    mentee: LabMember;
+    reason: 'no-senior-holder' | 'mentors-at-capacity';
+  }[];
+  load: Record<string, number>; // mentor id -> number of mentees
+}
+
+// For learning paths towards a target skill
+export interface LearningPathStep {
+  skill: Subcategory;
+  currentLevel: ProficiencyLevel | null; // null when not held yet
+  unlocks: Subcategory[]; // skills on the path that depend on this one
+}
+
+export interface LearningPath {
+  target: Subcategory;
+  steps: LearningPathStep[]; // learning order, target last
+  alreadyMet: Subcategory[]; // dependencies the member already holds well enough
+}
+
+// For personal next-skill recommendations
+export interface SkillRecommendation {
+  skill: Subcategory;
+  currentLevel: ProficiencyLevel | null; // null when not held yet
+  targetLevel: ProficiencyLevel;
+  statusBefore: GapStatus;
+  statusAfter: GapStatus; // lab status once the member reaches targetLevel
+  riskReduction: number; // drop in gap severity, 0-3
+  proximity: number; // 0-1, share of the member's category weight in this skill's categories
+  sharedCategories: SkillCategory[];
+  missingPrerequisites: Subcategory[]; // learning path steps before the skill
+  mentors: LabMember[]; // advanced/expert holders, strongest first
+  score: number;
+}
+
+// Entries of skillsData.json that edits, diffs and merges work on
+export type DataEntityType = 'member' | 'skill' | 'category' | 'project';
+
+export const DATA_ENTITY_LABELS: Record<DataEntityType, string> = {
+  member: 'Member',
+  skill: 'Skill',
+  category: 'Category',
+  project: 'Project',
+};
+
+// One staged edit in the PR generator's change set
+export type ChangeAction = 'add' | 'update' | 'delete';
+
+export const CHANGE_ACTION_LABELS: Record<ChangeAction, string> = {
+  add: 'Add',
+  update: 'Update',
+  delete: 'Delete',
+};
+
+interface EntityChange<E extends DataEntityType, T> {
+  id: string; // id of the change itself, not of the entry
+  entity: E;
+  action: ChangeAction;
+  data: T; // the entry after the change, or the entry being deleted
+  description: string;
+}
+
+export type DataChange =
+  | EntityChange<'member', LabMember>
+  | EntityChange<'skill', Subcategory>
+  | EntityChange<'category', SkillCategory>
+  | EntityChange<'project', Project>;
+
+// Semantic diff between two versions of skillsData.json
+export type DiffChangeType = 'added' | 'removed' | 'changed';
+
+export interface FieldDiff {
+  field: string; // e.g. 'role' or 'skills.perception'
+  before: unknown; // undefined when the field was added
+  after: unknown; // undefined when the field was removed
+}
+
+export interface EntityDiff {
+  entity: DataEntityType;
+  id: string;
+  name: string;
+  change: DiffChangeType;
+  fields: FieldDiff[]; // every field for added and removed entries
+}
+
+// Three-way merge of pending edits with the latest upstream data
+export type ConflictResolution = 'local' | 'remote';
+
+export interface MergeConflict {
+  entity: DataEntityType;
+  id: string;
+  name: string;
+  field: string; // e.g. 'role' or 'skills.perception', '' for the whole entity
+  base: unknown; // value in the snapshot the edits started from
+  local: unknown; // value after the user's edits
+  remote: unknown; // value upstream now
+}
+
+export interface MergeResult {
+  data: SkillsData;
+  conflicts: MergeConflict[];
 }
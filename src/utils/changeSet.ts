@@ -0,0 +1,149 @@
+// Staged edits to skillsData.json of any entry type, applied in order and
+// submitted together as one commit
+
+import type {
+  DataChange,
+  DataEntityType,
+  SkillsData,
+  ValidationIssue,
+} from '../types/types';
+import { DATA_ENTITY_LABELS } from '../types/types';
+import { findIntroducedErrors } from './dataValidation';
+
+// Array in skillsData.json holding each entry type
+export const DATA_COLLECTIONS: Record<DataEntityType, keyof SkillsData> = {
+  member: 'members',
+  skill: 'skills',
+  category: 'categories',
+  project: 'projects',
+};
+
+export function applyChangeSet(
+  data: SkillsData,
+  changes: DataChange[],
+): SkillsData {
+  const result = structuredClone(data);
+  const collections = result as unknown as Record<
+    string,
+    { id: string }[] | undefined
+  >;
+  for (const change of changes) {
+    const key = DATA_COLLECTIONS[change.entity];
+    const list = collections[key] ?? [];
+    const index = list.findIndex((item) => item.id === change.data.id);
+    if (change.action === 'delete') {
+      if (index >= 0) list.splice(index, 1);
+    } else if (index >= 0) {
+      list[index] = structuredClone(change.data);
+    } else {
+      list.push(structuredClone(change.data));
+    }
+    if (list.length > 0 || collections[key]) collections[key] = list;
+  }
+  return result;
+}
+
+/**
+ * Adds a change to the set. A later change to an entry already in the set
+ * replaces the earlier one in place, so every entry appears once: an update
+ * of a staged addition stays an addition, and deleting it cancels both.
+ */
+export function stageChange(
+  changes: DataChange[],
+  change: Omit<DataChange, 'id'>,
+): DataChange[] {
+  const index = changes.findIndex(
+    (c) => c.entity === change.entity && c.data.id === change.data.id,
+  );
+  if (index < 0) {
+    const id = `change-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+    return [...changes, { ...change, id } as DataChange];
+  }
+
+  const existing = changes[index];
+  if (existing.action === 'add' && change.action === 'delete') {
+    return changes.filter((_, i) => i !== index);
+  }
+  const staged = (
+    existing.action === 'add'
+      ? {
+          ...change,
+          action: 'add',
+          description: `Add new ${DATA_ENTITY_LABELS[change.entity].toLowerCase()} "${change.data.name}"`,
+        }
+      : change
+  ) as DataChange;
+  return changes.map((c, i) => (i === index ? { ...staged, id: c.id } : c));
+}
+
+export function moveChange(
+  changes: DataChange[],
+  from: number,
+  to: number,
+): DataChange[] {
+  if (to < 0 || to >= changes.length) return changes;
+  const result = [...changes];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+}
+
+// Used for the PR title and commit message
+export function summarizeChangeSet(changes: DataChange[]): string {
+  if (changes.length === 1) return changes[0].description;
+  const counts = new Map<DataEntityType, number>();
+  for (const change of changes) {
+    counts.set(change.entity, (counts.get(change.entity) ?? 0) + 1);
+  }
+  const parts = [...counts].map(
+    ([entity, count]) =>
+      `${count} ${count === 1 ? DATA_ENTITY_LABELS[entity].toLowerCase() : DATA_COLLECTIONS[entity]}`,
+  );
+  return `${changes.length} changes (${parts.join(', ')})`;
+}
+
+// Additions whose id is already taken when they are applied, which would
+// silently replace the existing entry
+function findDuplicateAdds(
+  data: SkillsData,
+  changes: DataChange[],
+): ValidationIssue[] {
+  const ids = new Map<DataEntityType, Set<string>>();
+  const idsOf = (entity: DataEntityType) => {
+    if (!ids.has(entity)) {
+      const list = data[DATA_COLLECTIONS[entity]] as
+        | { id: string }[]
+        | undefined;
+      ids.set(entity, new Set((list ?? []).map((item) => item.id)));
+    }
+    return ids.get(entity)!;
+  };
+  const issues: ValidationIssue[] = [];
+  for (const change of changes) {
+    const taken = idsOf(change.entity);
+    if (change.action === 'delete') {
+      taken.delete(change.data.id);
+    } else if (change.action === 'add' && taken.has(change.data.id)) {
+      issues.push({
+        severity: 'error',
+        path: `$.${DATA_COLLECTIONS[change.entity]}`,
+        message: `${DATA_ENTITY_LABELS[change.entity]} ID "${change.data.id}" already exists, so adding it would replace that entry`,
+      });
+    } else {
+      taken.add(change.data.id);
+    }
+  }
+  return issues;
+}
+
+// Validation errors the change set would introduce; problems that are already
+// in the data do not block it
+export function findChangeSetErrors(
+  data: SkillsData,
+  changes: DataChange[],
+): ValidationIssue[] {
+  return [
+    ...findDuplicateAdds(data, changes),
+    ...findIntroducedErrors(data, applyChangeSet(data, changes)),
+  ];
+}
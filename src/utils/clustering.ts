@@ -0,0 +1,49 @@
+// Small agglomerative clustering helpers for ordering matrix rows and columns
+
+export function cosineDistance(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 1;
+  return 1 - dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Leaf order of an average-linkage hierarchical clustering, so that similar
+ * vectors end up next to each other. Returns indices into `vectors`.
+ */
+export function clusterOrder(vectors: number[][]): number[] {
+  const distance = vectors.map((a) => vectors.map((b) => cosineDistance(a, b)));
+  let clusters = vectors.map((_, i) => [i]);
+
+  const linkage = (x: number[], y: number[]) => {
+    let sum = 0;
+    for (const i of x) for (const j of y) sum += distance[i][j];
+    return sum / (x.length * y.length);
+  };
+
+  while (clusters.length > 1) {
+    let best = [0, 1];
+    let bestDistance = Infinity;
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const d = linkage(clusters[i], clusters[j]);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = [i, j];
+        }
+      }
+    }
+    const [i, j] = best;
+    const merged = [...clusters[i], ...clusters[j]];
+    clusters = clusters.filter((_, k) => k !== i && k !== j);
+    clusters.push(merged);
+  }
+
+  return clusters[0] ?? [];
+}
@@ -0,0 +1,22 @@
+// Quote a field when it contains a separator, quote or line break (RFC 4180)
+function escapeField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(escapeField).join(',')).join('\r\n');
+}
+
+export function downloadCsv(
+  filename: string,
+  rows: (string | number)[][],
+): void {
+  const blob = new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
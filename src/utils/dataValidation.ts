@@ -0,0 +1,653 @@
+import type {
+  ProficiencyLevel,
+  Subcategory,
+  ValidationIssue,
+  ValidationReport,
+  ValidationSeverity,
+} from '../types/types';
+import { PROFICIENCY_LABELS } from '../types/types';
+import { isValidISODate } from './dates';
+import { findSkillCycle } from './skillGraph';
+
+type JsonObject = Record<string, unknown>;
+
+const PROFICIENCY_LEVELS = Object.keys(
+  PROFICIENCY_LABELS,
+) as ProficiencyLevel[];
+
+// getMemberBlendedColor parses colors as #rrggbb, so shorthand is not allowed
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const createCollector = () => {
+  const issues: ValidationIssue[] = [];
+
+  const add = (severity: ValidationSeverity, path: string, message: string) =>
+    issues.push({ severity, path, message });
+
+  return {
+    issues,
+    error: (path: string, message: string) => add('error', path, message),
+    warning: (path: string, message: string) => add('warning', path, message),
+
+    requireString: (obj: JsonObject, key: string, path: string) => {
+      if (!isNonEmptyString(obj[key])) {
+        add('error', `${path}.${key}`, `"${key}" must be a non-empty string`);
+      }
+    },
+
+    optionalString: (obj: JsonObject, key: string, path: string) => {
+      if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+        add(
+          'error',
+          `${path}.${key}`,
+          `"${key}" must be a string when present`,
+        );
+      }
+    },
+
+    proficiency: (value: unknown, path: string) => {
+      if (!PROFICIENCY_LEVELS.includes(value as ProficiencyLevel)) {
+        add(
+          'error',
+          path,
+          `Invalid proficiency "${String(value)}", expected one of ${PROFICIENCY_LEVELS.join(', ')}`,
+        );
+      }
+    },
+
+    optionalDate: (obj: JsonObject, key: string, path: string) => {
+      const value = obj[key];
+      if (
+        value !== undefined &&
+        (typeof value !== 'string' || !isValidISODate(value))
+      ) {
+        add('error', `${path}.${key}`, `"${key}" must be a YYYY-MM-DD date`);
+      }
+    },
+
+    // Records duplicate ids and returns the set of ids seen
+    collectIds: (items: unknown[], path: string, label: string) => {
+      const seen = new Map<string, number>();
+      items.forEach((item, i) => {
+        if (!isObject(item) || !isNonEmptyString(item.id)) return;
+        const first = seen.get(item.id);
+        if (first !== undefined) {
+          add(
+            'error',
+            `${path}[${i}].id`,
+            `Duplicate ${label} id "${item.id}" (first used at ${path}[${first}])`,
+          );
+        } else {
+          seen.set(item.id, i);
+        }
+      });
+      return new Set(seen.keys());
+    },
+
+    warnDuplicateNames: (items: unknown[], path: string, label: string) => {
+      const seen = new Map<string, number>();
+      items.forEach((item, i) => {
+        if (!isObject(item) || !isNonEmptyString(item.name)) return;
+        const key = item.name.trim().toLowerCase();
+        const first = seen.get(key);
+        if (first !== undefined) {
+          add(
+            'warning',
+            `${path}[${i}].name`,
+            `${label} name "${item.name}" is also used at ${path}[${first}]`,
+          );
+        } else {
+          seen.set(key, i);
+        }
+      });
+    },
+  };
+};
+
+/**
+ * Checks an untrusted skillsData.json payload against the SkillsData types,
+ * including references between members, skills and categories.
+ */
+export function validateSkillsData(input: unknown): ValidationReport {
+  const c = createCollector();
+
+  if (!isObject(input)) {
+    c.error('$', 'Data must be a JSON object');
+    return buildReport(c.issues, false);
+  }
+
+  let usable = true;
+  for (const key of ['categories', 'skills', 'members']) {
+    if (!Array.isArray(input[key])) {
+      c.error(`$.${key}`, `"${key}" must be an array`);
+      usable = false;
+    }
+  }
+  if (!usable) return buildReport(c.issues, false);
+
+  const categories = input.categories as unknown[];
+  const skills = input.skills as unknown[];
+  const members = input.members as unknown[];
+
+  // Categories
+  categories.forEach((cat, i) => {
+    const path = `$.categories[${i}]`;
+    if (!isObject(cat)) {
+      c.error(path, 'Category must be an object');
+      usable = false;
+      return;
+    }
+    c.requireString(cat, 'id', path);
+    c.requireString(cat, 'name', path);
+    c.optionalString(cat, 'description', path);
+    if (typeof cat.color !== 'string' || !HEX_COLOR.test(cat.color)) {
+      c.error(`${path}.color`, '"color" must be a hex color like #3498db');
+    }
+  });
+  const categoryIds = c.collectIds(categories, '$.categories', 'category');
+  c.warnDuplicateNames(categories, '$.categories', 'Category');
+
+  // Skills
+  const usedCategoryIds = new Set<string>();
+  skills.forEach((skill, i) => {
+    const path = `$.skills[${i}]`;
+    if (!isObject(skill)) {
+      c.error(path, 'Skill must be an object');
+      usable = false;
+      return;
+    }
+    c.requireString(skill, 'id', path);
+    c.requireString(skill, 'name', path);
+    c.optionalString(skill, 'description', path);
+
+    if (!Array.isArray(skill.belongsTo)) {
+      c.error(`${path}.belongsTo`, '"belongsTo" must be an array');
+      usable = false;
+      return;
+    }
+    if (skill.belongsTo.length === 0) {
+      c.warning(
+        `${path}.belongsTo`,
+        'Skill belongs to no category and will not appear in the charts',
+      );
+    }
+    const seen = new Set<string>();
+    skill.belongsTo.forEach((catId, j) => {
+      const catPath = `${path}.belongsTo[${j}]`;
+      if (typeof catId !== 'string') {
+        c.error(catPath, 'Category reference must be a string');
+        return;
+      }
+      if (seen.has(catId)) {
+        c.warning(catPath, `Category "${catId}" is listed more than once`);
+      }
+      seen.add(catId);
+      usedCategoryIds.add(catId);
+      if (!categoryIds.has(catId)) {
+        c.error(catPath, `Unknown category "${catId}"`);
+      }
+    });
+  });
+  const skillIds = c.collectIds(skills, '$.skills', 'skill');
+  c.warnDuplicateNames(skills, '$.skills', 'Skill');
+
+  // Skill hierarchy and prerequisites
+  let dependenciesUsable = true;
+  skills.forEach((skill, i) => {
+    const path = `$.skills[${i}]`;
+    if (!isObject(skill)) return;
+    if (skill.parentId !== undefined) {
+      if (typeof skill.parentId !== 'string') {
+        c.error(`${path}.parentId`, '"parentId" must be a string');
+        dependenciesUsable = false;
+      } else if (skill.parentId === skill.id) {
+        c.error(`${path}.parentId`, 'Skill cannot be its own parent');
+      } else if (!skillIds.has(skill.parentId)) {
+        c.error(`${path}.parentId`, `Unknown skill "${skill.parentId}"`);
+      }
+    }
+    if (skill.prerequisites === undefined) return;
+    if (!Array.isArray(skill.prerequisites)) {
+      c.error(`${path}.prerequisites`, '"prerequisites" must be an array');
+      dependenciesUsable = false;
+      return;
+    }
+    const seen = new Set<string>();
+    skill.prerequisites.forEach((prereqId, j) => {
+      const prereqPath = `${path}.prerequisites[${j}]`;
+      if (typeof prereqId !== 'string') {
+        c.error(prereqPath, 'Prerequisite must be a skill id string');
+        dependenciesUsable = false;
+        return;
+      }
+      if (prereqId === skill.id) {
+        c.error(prereqPath, 'Skill cannot be its own prerequisite');
+      } else if (!skillIds.has(prereqId)) {
+        c.error(prereqPath, `Unknown skill "${prereqId}"`);
+      }
+      if (seen.has(prereqId)) {
+        c.warning(prereqPath, `Prerequisite "${prereqId}" is listed twice`);
+      }
+      seen.add(prereqId);
+    });
+  });
+  if (usable && dependenciesUsable) {
+    // Self-references are already reported above
+    const cycle = findSkillCycle(
+      (skills as Subcategory[]).map((skill) => ({
+        ...skill,
+        parentId: skill.parentId === skill.id ? undefined : skill.parentId,
+        prerequisites: skill.prerequisites?.filter((id) => id !== skill.id),
+      })),
+    );
+    if (cycle) {
+      c.error(
+        '$.skills',
+        `Skill prerequisites form a cycle: ${cycle.join(' → ')}`,
+      );
+    }
+  }
+
+  categories.forEach((cat, i) => {
+    if (isObject(cat) && isNonEmptyString(cat.id)) {
+      if (!usedCategoryIds.has(cat.id)) {
+        c.warning(
+          `$.categories[${i}]`,
+          `Category "${cat.id}" has no skills assigned`,
+        );
+      }
+    }
+  });
+
+  // Members
+  members.forEach((member, i) => {
+    const path = `$.members[${i}]`;
+    if (!isObject(member)) {
+      c.error(path, 'Member must be an object');
+      usable = false;
+      return;
+    }
+    c.requireString(member, 'id', path);
+    c.requireString(member, 'name', path);
+    c.requireString(member, 'role', path);
+    c.optionalString(member, 'avatar', path);
+    c.optionalString(member, 'email', path);
+    c.optionalString(member, 'github', path);
+    c.optionalDate(member, 'startDate', path);
+    c.optionalDate(member, 'expectedEndDate', path);
+    if (
+      typeof member.startDate === 'string' &&
+      typeof member.expectedEndDate === 'string' &&
+      member.expectedEndDate < member.startDate
+    ) {
+      c.error(
+        `${path}.expectedEndDate`,
+        '"expectedEndDate" is before "startDate"',
+      );
+    }
+
+    if (!Array.isArray(member.skills)) {
+      c.error(`${path}.skills`, '"skills" must be an array');
+      usable = false;
+      return;
+    }
+    const seen = new Set<string>();
+    const currentLevels = new Map<string, unknown>();
+    member.skills.forEach((entry, j) => {
+      const entryPath = `${path}.skills[${j}]`;
+      if (!isObject(entry)) {
+        c.error(entryPath, 'Member skill must be an object');
+        usable = false;
+        return;
+      }
+      if (typeof entry.skillId !== 'string') {
+        c.error(`${entryPath}.skillId`, '"skillId" must be a string');
+      } else {
+        if (!skillIds.has(entry.skillId)) {
+          c.error(`${entryPath}.skillId`, `Unknown skill "${entry.skillId}"`);
+        }
+        if (seen.has(entry.skillId)) {
+          c.warning(
+            `${entryPath}.skillId`,
+            `Skill "${entry.skillId}" is listed more than once for this member`,
+          );
+        }
+        seen.add(entry.skillId);
+        currentLevels.set(entry.skillId, entry.proficiency);
+      }
+      c.proficiency(entry.proficiency, `${entryPath}.proficiency`);
+      c.optionalDate(entry, 'lastVerified', entryPath);
+
+      if (entry.history === undefined) return;
+      if (!Array.isArray(entry.history)) {
+        c.error(`${entryPath}.history`, '"history" must be an array');
+        usable = false;
+        return;
+      }
+      let previousDate = '';
+      entry.history.forEach((change, k) => {
+        const changePath = `${entryPath}.history[${k}]`;
+        if (!isObject(change)) {
+          c.error(changePath, 'History entry must be an object');
+          usable = false;
+          return;
+        }
+        c.proficiency(change.proficiency, `${changePath}.proficiency`);
+        if (typeof change.date !== 'string' || !isValidISODate(change.date)) {
+          c.error(`${changePath}.date`, '"date" must be a YYYY-MM-DD date');
+          return;
+        }
+        if (change.date < previousDate) {
+          c.warning(`${changePath}.date`, 'History is not in date order');
+        }
+        previousDate = change.date;
+      });
+      const last = entry.history[entry.history.length - 1];
+      if (isObject(last) && last.proficiency !== entry.proficiency) {
+        c.warning(
+          `${entryPath}.history`,
+          'Latest history entry does not match the current proficiency',
+        );
+      }
+    });
+
+    if (member.learningGoals === undefined) return;
+    if (!Array.isArray(member.learningGoals)) {
+      c.error(`${path}.learningGoals`, '"learningGoals" must be an array');
+      usable = false;
+      return;
+    }
+    const goalSkills = new Set<string>();
+    member.learningGoals.forEach((goal, j) => {
+      const goalPath = `${path}.learningGoals[${j}]`;
+      if (!isObject(goal)) {
+        c.error(goalPath, 'Learning goal must be an object');
+        usable = false;
+        return;
+      }
+      c.proficiency(goal.targetLevel, `${goalPath}.targetLevel`);
+      c.optionalDate(goal, 'targetDate', goalPath);
+      if (typeof goal.skillId !== 'string') {
+        c.error(`${goalPath}.skillId`, '"skillId" must be a string');
+        return;
+      }
+      if (!skillIds.has(goal.skillId)) {
+        c.error(`${goalPath}.skillId`, `Unknown skill "${goal.skillId}"`);
+      }
+      if (goalSkills.has(goal.skillId)) {
+        c.warning(
+          `${goalPath}.skillId`,
+          `Skill "${goal.skillId}" has more than one goal for this member`,
+        );
+      }
+      goalSkills.add(goal.skillId);
+
+      const current = PROFICIENCY_LEVELS.indexOf(
+        currentLevels.get(goal.skillId) as ProficiencyLevel,
+      );
+      const target = PROFICIENCY_LEVELS.indexOf(
+        goal.targetLevel as ProficiencyLevel,
+      );
+      if (current >= 0 && target >= 0 && current >= target) {
+        c.warning(
+          `${goalPath}.targetLevel`,
+          'Goal is already met by the current proficiency',
+        );
+      }
+    });
+  });
+  c.collectIds(members, '$.members', 'member');
+
+  // Projects
+  if (input.projects !== undefined) {
+    if (!Array.isArray(input.projects)) {
+      c.error('$.projects', '"projects" must be an array');
+      usable = false;
+    } else {
+      input.projects.forEach((project, i) => {
+        const path = `$.projects[${i}]`;
+        if (!isObject(project)) {
+          c.error(path, 'Project must be an object');
+          usable = false;
+          return;
+        }
+        c.requireString(project, 'id', path);
+        c.requireString(project, 'name', path);
+        c.optionalString(project, 'description', path);
+        if (!Array.isArray(project.requirements)) {
+          c.error(`${path}.requirements`, '"requirements" must be an array');
+          usable = false;
+          return;
+        }
+        if (project.requirements.length === 0) {
+          c.warning(`${path}.requirements`, 'Project has no requirements');
+        }
+        const seen = new Set<string>();
+        project.requirements.forEach((req, j) => {
+          const reqPath = `${path}.requirements[${j}]`;
+          if (!isObject(req)) {
+            c.error(reqPath, 'Requirement must be an object');
+            usable = false;
+            return;
+          }
+          c.proficiency(req.minProficiency, `${reqPath}.minProficiency`);
+          if (typeof req.skillId !== 'string') {
+            c.error(`${reqPath}.skillId`, '"skillId" must be a string');
+            return;
+          }
+          if (!skillIds.has(req.skillId)) {
+            c.error(`${reqPath}.skillId`, `Unknown skill "${req.skillId}"`);
+          }
+          if (seen.has(req.skillId)) {
+            c.warning(
+              `${reqPath}.skillId`,
+              `Skill "${req.skillId}" is required more than once`,
+            );
+          }
+          seen.add(req.skillId);
+        });
+      });
+      c.collectIds(input.projects, '$.projects', 'project');
+    }
+  }
+
+  // Gap policy
+  if (input.gapPolicy !== undefined) {
+    const policy = input.gapPolicy;
+    if (!isObject(policy)) {
+      c.error('$.gapPolicy', '"gapPolicy" must be an object');
+    } else {
+      if (policy.default !== undefined) {
+        validateGapRule(c, policy.default, '$.gapPolicy.default');
+      }
+      const scopes = [
+        ['categories', categoryIds, 'category'],
+        ['skills', skillIds, 'skill'],
+      ] as const;
+      for (const [key, ids, label] of scopes) {
+        const rules = policy[key];
+        if (rules === undefined) continue;
+        if (!isObject(rules)) {
+          c.error(`$.gapPolicy.${key}`, `"${key}" must be an object`);
+          continue;
+        }
+        for (const [id, rule] of Object.entries(rules)) {
+          const path = `$.gapPolicy.${key}.${id}`;
+          if (!ids.has(id)) c.error(path, `Unknown ${label} "${id}"`);
+          validateGapRule(c, rule, path);
+        }
+      }
+    }
+  }
+
+  return buildReport(c.issues, usable);
+}
+
+const GAP_RECOMMENDATION_KEYS = ['no-coverage', 'no-expert', 'limited'];
+
+function validateGapRule(
+  c: ReturnType<typeof createCollector>,
+  rule: unknown,
+  path: string,
+) {
+  if (!isObject(rule)) {
+    c.error(path, 'Gap rule must be an object');
+    return;
+  }
+  for (const key of ['minMembers', 'minExperts']) {
+    const value = rule[key];
+    if (
+      value !== undefined &&
+      (!Number.isInteger(value) || (value as number) < 0)
+    ) {
+      c.error(`${path}.${key}`, `"${key}" must be a non-negative integer`);
+    }
+  }
+  if (rule.minProficiency !== undefined) {
+    c.proficiency(rule.minProficiency, `${path}.minProficiency`);
+  }
+  if (rule.recommendations !== undefined) {
+    if (!isObject(rule.recommendations)) {
+      c.error(`${path}.recommendations`, '"recommendations" must be an object');
+      return;
+    }
+    for (const [key, text] of Object.entries(rule.recommendations)) {
+      if (!GAP_RECOMMENDATION_KEYS.includes(key)) {
+        c.warning(
+          `${path}.recommendations.${key}`,
+          `Unknown gap status "${key}", expected one of ${GAP_RECOMMENDATION_KEYS.join(', ')}`,
+        );
+      } else if (typeof text !== 'string') {
+        c.error(
+          `${path}.recommendations.${key}`,
+          'Recommendation must be a string',
+        );
+      }
+    }
+  }
+}
+
+function buildReport(
+  issues: ValidationIssue[],
+  usable: boolean,
+): ValidationReport {
+  const errorCount = issues.filter((i) => i.severity === 'error').length;
+  return {
+    usable,
+    issues,
+    errorCount,
+    warningCount: issues.length - errorCount,
+  };
+}
+
+// Errors in `after` that `before` did not already have. Compared by message,
+// since paths shift when entries are added or removed.
+export function findIntroducedErrors(
+  before: unknown,
+  after: unknown,
+): ValidationIssue[] {
+  const errors = (input: unknown) =>
+    validateSkillsData(input).issues.filter((i) => i.severity === 'error');
+  const known = new Set(errors(before).map((i) => i.message));
+  return errors(after).filter((i) => !known.has(i.message));
+}
+
+/**
+ * Checks an untrusted homeConfig.json payload against the HomeConfig type.
+ */
+export function validateHomeConfig(input: unknown): ValidationReport {
+  const c = createCollector();
+
+  if (!isObject(input)) {
+    c.error('$', 'Config must be a JSON object');
+    return buildReport(c.issues, false);
+  }
+
+  let usable = true;
+  const requireObject = (value: unknown, path: string): value is JsonObject => {
+    if (isObject(value)) return true;
+    c.error(path, 'Must be an object');
+    usable = false;
+    return false;
+  };
+  const requireArray = (value: unknown, path: string): value is unknown[] => {
+    if (Array.isArray(value)) return true;
+    c.error(path, 'Must be an array');
+    usable = false;
+    return false;
+  };
+
+  if (requireObject(input.hero, '$.hero')) {
+    for (const key of ['title', 'subtitle', 'description']) {
+      c.requireString(input.hero, key, '$.hero');
+    }
+  }
+
+  if (requireObject(input.lab, '$.lab')) {
+    const lab = input.lab;
+    for (const key of ['name', 'fullName', 'institution', 'description']) {
+      c.requireString(lab, key, '$.lab');
+    }
+    c.optionalString(lab, 'website', '$.lab');
+    if (
+      lab.director !== undefined &&
+      requireObject(lab.director, '$.lab.director')
+    ) {
+      c.requireString(lab.director, 'name', '$.lab.director');
+      c.requireString(lab.director, 'title', '$.lab.director');
+      c.optionalString(lab.director, 'email', '$.lab.director');
+    }
+  }
+
+  if (requireArray(input.features, '$.features')) {
+    input.features.forEach((feature, i) => {
+      const path = `$.features[${i}]`;
+      if (!requireObject(feature, path)) return;
+      for (const key of ['icon', 'title', 'description']) {
+        c.requireString(feature, key, path);
+      }
+    });
+  }
+
+  if (requireObject(input.statistics, '$.statistics')) {
+    const stats = input.statistics;
+    if (typeof stats.showStats !== 'boolean') {
+      c.error('$.statistics.showStats', '"showStats" must be a boolean');
+    }
+    if (requireArray(stats.customStats, '$.statistics.customStats')) {
+      stats.customStats.forEach((stat, i) => {
+        const path = `$.statistics.customStats[${i}]`;
+        if (!requireObject(stat, path)) return;
+        c.requireString(stat, 'title', path);
+        c.optionalString(stat, 'suffix', path);
+        if (typeof stat.value !== 'number' || !Number.isFinite(stat.value)) {
+          c.error(`${path}.value`, '"value" must be a number');
+        }
+      });
+    }
+  }
+
+  if (requireArray(input.quickLinks, '$.quickLinks')) {
+    input.quickLinks.forEach((link, i) => {
+      const path = `$.quickLinks[${i}]`;
+      if (!requireObject(link, path)) return;
+      for (const key of ['title', 'description', 'link', 'icon']) {
+        c.requireString(link, key, path);
+      }
+      if (typeof link.link === 'string' && !link.link.startsWith('/')) {
+        c.warning(
+          `${path}.link`,
+          'Quick links are rendered as in-app routes and should start with "/"',
+        );
+      }
+    });
+  }
+
+  return buildReport(c.issues, usable);
+}
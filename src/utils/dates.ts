@@ -0,0 +1,17 @@
+// Data files store calendar dates as ISO strings (YYYY-MM-DD)
+export const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toISODate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+export function todayISODate(): string {
+  return toISODate(new Date());
+}
+
+export function isValidISODate(value: string): boolean {
+  return ISO_DATE.test(value) && !Number.isNaN(Date.parse(value));
+}
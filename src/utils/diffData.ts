@@ -0,0 +1,128 @@
+// Semantic diff of two versions of skillsData.json, per entry and per field
+
+import type {
+  DataEntityType,
+  EntityDiff,
+  FieldDiff,
+  SkillsData,
+} from '../types/types';
+import { DATA_ENTITY_LABELS } from '../types/types';
+import { canonicalizeSkillsData } from './formatData';
+import { KEYED_FIELDS } from './mergeData';
+
+type JsonObject = Record<string, unknown>;
+
+const CHANGE_VERBS = { added: 'Added', removed: 'Removed', changed: 'Changed' };
+
+// Inputs are canonicalized first, so key order never makes values differ
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+export const formatDataValue = (value: unknown) => {
+  if (value === undefined) return '(none)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+function diffFields(
+  entity: DataEntityType,
+  before: JsonObject,
+  after: JsonObject,
+): FieldDiff[] {
+  const keyed = KEYED_FIELDS[entity] ?? {};
+  const diffs: FieldDiff[] = [];
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of fields) {
+    const [b, a] = [before[field], after[field]];
+    if (isEqual(b, a)) continue;
+    const key = keyed[field];
+    if (!key) {
+      diffs.push({ field, before: b, after: a });
+      continue;
+    }
+    // Keyed lists are compared item by item, e.g. skills.perception
+    const [bItems, aItems] = [
+      (b as JsonObject[] | undefined) ?? [],
+      (a as JsonObject[] | undefined) ?? [],
+    ];
+    const ids = new Set([...bItems, ...aItems].map((i) => i[key] as string));
+    for (const id of ids) {
+      const bItem = bItems.find((i) => i[key] === id);
+      const aItem = aItems.find((i) => i[key] === id);
+      if (!isEqual(bItem, aItem)) {
+        diffs.push({ field: `${field}.${id}`, before: bItem, after: aItem });
+      }
+    }
+  }
+  return diffs;
+}
+
+function diffCollection<T extends { id: string; name?: string }>(
+  entity: DataEntityType,
+  before: T[],
+  after: T[],
+): EntityDiff[] {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterById = new Map(after.map((item) => [item.id, item]));
+  const diffs: EntityDiff[] = [];
+  for (const item of after) {
+    const old = beforeById.get(item.id);
+    const name = item.name ?? item.id;
+    if (!old) {
+      const fields = diffFields(entity, {}, item as unknown as JsonObject);
+      diffs.push({ entity, id: item.id, name, change: 'added', fields });
+    } else if (!isEqual(old, item)) {
+      const fields = diffFields(
+        entity,
+        old as unknown as JsonObject,
+        item as unknown as JsonObject,
+      );
+      diffs.push({ entity, id: item.id, name, change: 'changed', fields });
+    }
+  }
+  for (const old of before) {
+    if (!afterById.has(old.id)) {
+      diffs.push({
+        entity,
+        id: old.id,
+        name: old.name ?? old.id,
+        change: 'removed',
+        fields: diffFields(entity, old as unknown as JsonObject, {}),
+      });
+    }
+  }
+  return diffs;
+}
+
+/**
+ * Entries added, removed or changed between two versions of the data, in
+ * file order: categories, skills, members, then projects.
+ */
+export function diffSkillsData(
+  before: SkillsData,
+  after: SkillsData,
+): EntityDiff[] {
+  const [b, a] = [before, after].map(canonicalizeSkillsData);
+  return [
+    ...diffCollection('category', b.categories, a.categories),
+    ...diffCollection('skill', b.skills, a.skills),
+    ...diffCollection('member', b.members, a.members),
+    ...diffCollection('project', b.projects ?? [], a.projects ?? []),
+  ];
+}
+
+// Markdown section for the PR body
+export function formatDiffMarkdown(diffs: EntityDiff[]): string {
+  const lines = diffs.flatMap((d) => [
+    `- **${CHANGE_VERBS[d.change]} ${DATA_ENTITY_LABELS[d.entity].toLowerCase()}** ${d.name} (\`${d.id}\`)`,
+    ...d.fields.map((f) => {
+      const value =
+        d.change === 'changed'
+          ? `\`${formatDataValue(f.before)}\` → \`${formatDataValue(f.after)}\``
+          : `\`${formatDataValue(d.change === 'added' ? f.after : f.before)}\``;
+      return `  - \`${f.field}\`: ${value}`;
+    }),
+  ]);
+  return `### Data Changes
+${lines.length > 0 ? lines.join('\n') : 'No changes to `public/data/skillsData.json`.'}
+`;
+}
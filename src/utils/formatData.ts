@@ -0,0 +1,110 @@
+import type { HomeConfig, SkillsData } from '../types/types';
+
+type JsonObject = Record<string, unknown>;
+
+// Field order used when writing each entity; unknown fields keep their
+// original order after these
+const CATEGORY_KEYS = ['id', 'name', 'color', 'description'];
+const SKILL_KEYS = [
+  'id',
+  'name',
+  'description',
+  'parentId',
+  'belongsTo',
+  'prerequisites',
+];
+const MEMBER_KEYS = [
+  'id',
+  'name',
+  'role',
+  'startDate',
+  'expectedEndDate',
+  'email',
+  'github',
+  'avatar',
+  'skills',
+  'learningGoals',
+];
+const MEMBER_SKILL_KEYS = ['skillId', 'proficiency', 'lastVerified', 'history'];
+const LEARNING_GOAL_KEYS = ['skillId', 'targetLevel', 'targetDate'];
+const PROJECT_KEYS = ['id', 'name', 'description', 'requirements'];
+const REQUIREMENT_KEYS = ['skillId', 'minProficiency'];
+
+const orderKeys = <T extends object>(obj: T, keys: string[]): T => {
+  const source = obj as JsonObject;
+  const result: JsonObject = {};
+  for (const key of keys) {
+    if (source[key] !== undefined) result[key] = source[key];
+  }
+  for (const [key, value] of Object.entries(source)) {
+    if (!(key in result) && value !== undefined) result[key] = value;
+  }
+  return result as T;
+};
+
+const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id);
+
+/**
+ * Canonical form of skillsData.json. Categories and members keep their
+ * authored order because it drives display order; skills and every nested
+ * list are sorted so independent edits produce small, stable diffs.
+ */
+export function canonicalizeSkillsData(data: SkillsData): SkillsData {
+  return orderKeys(
+    {
+      ...data,
+      categories: data.categories.map((cat) => orderKeys(cat, CATEGORY_KEYS)),
+      skills: [...data.skills].sort(byId).map((skill) =>
+        orderKeys(
+          {
+            ...skill,
+            belongsTo: [...skill.belongsTo].sort(),
+            ...(skill.prerequisites && {
+              prerequisites: [...skill.prerequisites].sort(),
+            }),
+          },
+          SKILL_KEYS,
+        ),
+      ),
+      members: data.members.map((member) =>
+        orderKeys(
+          {
+            ...member,
+            skills: [...member.skills]
+              .sort((a, b) => a.skillId.localeCompare(b.skillId))
+              .map((s) => orderKeys(s, MEMBER_SKILL_KEYS)),
+            ...(member.learningGoals && {
+              learningGoals: [...member.learningGoals]
+                .sort((a, b) => a.skillId.localeCompare(b.skillId))
+                .map((g) => orderKeys(g, LEARNING_GOAL_KEYS)),
+            }),
+          },
+          MEMBER_KEYS,
+        ),
+      ),
+      ...(data.projects && {
+        projects: data.projects.map((project) =>
+          orderKeys(
+            {
+              ...project,
+              requirements: [...project.requirements]
+                .sort((a, b) => a.skillId.localeCompare(b.skillId))
+                .map((r) => orderKeys(r, REQUIREMENT_KEYS)),
+            },
+            PROJECT_KEYS,
+          ),
+        ),
+      }),
+    },
+    ['categories', 'skills', 'members', 'projects', 'gapPolicy'],
+  );
+}
+
+export function formatSkillsData(data: SkillsData): string {
+  return `${JSON.stringify(canonicalizeSkillsData(data), null, 2)}\n`;
+}
+
+// homeConfig.json is entirely display-ordered, so only whitespace is normalized
+export function formatHomeConfig(config: HomeConfig): string {
+  return `${JSON.stringify(config, null, 2)}\n`;
+}
@@ -0,0 +1,265 @@
+// Three-way merge of skillsData.json: the snapshot the page loaded (base), the
+// same snapshot with the user's edits applied (local) and the file as it is
+// upstream now (remote)
+
+import type {
+  ConflictResolution,
+  MergeConflict,
+  DataEntityType,
+  MergeResult,
+  SkillsData,
+} from '../types/types';
+import { canonicalizeSkillsData } from './formatData';
+
+type JsonObject = Record<string, unknown>;
+
+// Nested lists merged (and diffed) item by item instead of as one value
+export const KEYED_FIELDS: Partial<
+  Record<DataEntityType, Record<string, string>>
+> = {
+  member: { skills: 'skillId', learningGoals: 'skillId' },
+  project: { requirements: 'skillId' },
+};
+// Nested id lists merged as sets, so they never conflict
+const SET_FIELDS: Partial<Record<DataEntityType, string[]>> = {
+  skill: ['belongsTo', 'prerequisites'],
+};
+
+interface MergeContext {
+  entity: DataEntityType;
+  id: string;
+  name: string;
+  resolutions: Record<string, ConflictResolution>;
+  conflicts: MergeConflict[];
+}
+
+export const getConflictKey = (conflict: {
+  entity: DataEntityType;
+  id: string;
+  field: string;
+}) => `${conflict.entity}:${conflict.id}:${conflict.field}`;
+
+// Inputs are canonicalized first, so key order never makes values differ
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// The side that changed wins; undefined means a conflict
+const pickChanged = (base: unknown, local: unknown, remote: unknown) => {
+  if (isEqual(local, base)) return { value: remote };
+  if (isEqual(remote, base) || isEqual(local, remote)) return { value: local };
+  return undefined;
+};
+
+// Records a conflict and returns the chosen side, upstream until resolved
+function resolveConflict(
+  ctx: MergeContext,
+  field: string,
+  base: unknown,
+  local: unknown,
+  remote: unknown,
+): unknown {
+  const conflict: MergeConflict = {
+    entity: ctx.entity,
+    id: ctx.id,
+    name: ctx.name,
+    field,
+    base,
+    local,
+    remote,
+  };
+  ctx.conflicts.push(conflict);
+  return ctx.resolutions[getConflictKey(conflict)] === 'local' ? local : remote;
+}
+
+function mergeValue(
+  ctx: MergeContext,
+  field: string,
+  base: unknown,
+  local: unknown,
+  remote: unknown,
+): unknown {
+  const picked = pickChanged(base, local, remote);
+  return picked
+    ? picked.value
+    : resolveConflict(ctx, field, base, local, remote);
+}
+
+// Items added or removed locally are applied on top of the upstream list
+function mergeSet(base: string[], local: string[], remote: string[]) {
+  const removed = base.filter((id) => !local.includes(id));
+  const added = local.filter((id) => !base.includes(id));
+  return [
+    ...remote.filter((id) => !removed.includes(id)),
+    ...added.filter((id) => !remote.includes(id)),
+  ];
+}
+
+// Union of ids, upstream order first and locally added ones after
+const unionIds = (key: string, local: JsonObject[], remote: JsonObject[]) => [
+  ...new Set([
+    ...remote.map((item) => item[key] as string),
+    ...local.map((item) => item[key] as string),
+  ]),
+];
+
+function mergeItems(
+  ctx: MergeContext,
+  field: string,
+  key: string,
+  base: JsonObject[],
+  local: JsonObject[],
+  remote: JsonObject[],
+): JsonObject[] {
+  const find = (list: JsonObject[], id: string) =>
+    list.find((item) => item[key] === id);
+  return unionIds(key, local, remote)
+    .map((id) =>
+      mergeValue(
+        ctx,
+        `${field}.${id}`,
+        find(base, id),
+        find(local, id),
+        find(remote, id),
+      ),
+    )
+    .filter((item): item is JsonObject => item !== undefined);
+}
+
+function mergeFields(
+  ctx: MergeContext,
+  base: JsonObject | undefined,
+  local: JsonObject,
+  remote: JsonObject,
+): JsonObject {
+  const keyed = KEYED_FIELDS[ctx.entity] ?? {};
+  const sets = SET_FIELDS[ctx.entity] ?? [];
+  const result: JsonObject = {};
+  const fields = new Set([
+    ...Object.keys(remote),
+    ...Object.keys(local),
+    ...Object.keys(base ?? {}),
+  ]);
+  for (const field of fields) {
+    const [b, l, r] = [base?.[field], local[field], remote[field]];
+    let value: unknown;
+    if (keyed[field] && (Array.isArray(l) || Array.isArray(r))) {
+      const items = mergeItems(
+        ctx,
+        field,
+        keyed[field],
+        (b as JsonObject[]) ?? [],
+        (l as JsonObject[]) ?? [],
+        (r as JsonObject[]) ?? [],
+      );
+      // Optional lists stay absent rather than becoming empty
+      value = items.length > 0 || (l && r) ? items : undefined;
+    } else if (sets.includes(field) && (Array.isArray(l) || Array.isArray(r))) {
+      const ids = mergeSet(
+        (b as string[]) ?? [],
+        (l as string[]) ?? [],
+        (r as string[]) ?? [],
+      );
+      value = ids.length > 0 || (l && r) ? ids : undefined;
+    } else {
+      value = mergeValue(ctx, field, b, l, r);
+    }
+    if (value !== undefined) result[field] = value;
+  }
+  return result;
+}
+
+function mergeCollection<T extends { id: string }>(
+  entity: DataEntityType,
+  base: T[],
+  local: T[],
+  remote: T[],
+  resolutions: Record<string, ConflictResolution>,
+  conflicts: MergeConflict[],
+): T[] {
+  const byId = (list: T[]) => new Map(list.map((item) => [item.id, item]));
+  const [b, l, r] = [byId(base), byId(local), byId(remote)];
+  const ids = unionIds(
+    'id',
+    local as unknown as JsonObject[],
+    remote as unknown as JsonObject[],
+  );
+  const merged: T[] = [];
+  for (const id of ids) {
+    const [bi, li, ri] = [b.get(id), l.get(id), r.get(id)];
+    const label = (li ?? ri ?? bi) as unknown as { name?: string };
+    const ctx: MergeContext = {
+      entity,
+      id,
+      name: label.name ?? id,
+      resolutions,
+      conflicts,
+    };
+    const picked = pickChanged(bi, li, ri);
+    let item: T | undefined;
+    if (picked) {
+      item = picked.value as T | undefined;
+    } else if (li && ri) {
+      // Both sides edited it: merge field by field
+      item = mergeFields(
+        ctx,
+        bi as unknown as JsonObject | undefined,
+        li as unknown as JsonObject,
+        ri as unknown as JsonObject,
+      ) as unknown as T;
+    } else {
+      // One side deleted what the other edited; field '' stands for the whole
+      item = resolveConflict(ctx, '', bi, li, ri) as T | undefined;
+    }
+    if (item) merged.push(item);
+  }
+  return merged;
+}
+
+/**
+ * Merges the user's edits into the latest upstream data. Conflicting fields
+ * are reported and take the upstream value unless `resolutions` (keyed by
+ * getConflictKey) chooses the local one.
+ */
+export function mergeSkillsData(
+  base: SkillsData,
+  local: SkillsData,
+  remote: SkillsData,
+  resolutions: Record<string, ConflictResolution> = {},
+): MergeResult {
+  const [b, l, r] = [base, local, remote].map(canonicalizeSkillsData);
+  const conflicts: MergeConflict[] = [];
+  const collection = <T extends { id: string }>(
+    entity: DataEntityType,
+    get: (data: SkillsData) => T[] | undefined,
+  ) =>
+    mergeCollection(
+      entity,
+      get(b) ?? [],
+      get(l) ?? [],
+      get(r) ?? [],
+      resolutions,
+      conflicts,
+    );
+
+  const projects = collection('project', (d) => d.projects);
+  // Policy is not edited here, so keep upstream's unless only we changed it
+  const gapPolicy = (
+    pickChanged(b.gapPolicy, l.gapPolicy, r.gapPolicy) ?? {
+      value: r.gapPolicy,
+    }
+  ).value as SkillsData['gapPolicy'];
+
+  return {
+    // Start from upstream so top-level keys merged here are never dropped;
+    // undefined values are left out when the file is written
+    data: {
+      ...r,
+      categories: collection('category', (d) => d.categories),
+      skills: collection('skill', (d) => d.skills),
+      members: collection('member', (d) => d.members),
+      projects: projects.length > 0 || r.projects ? projects : undefined,
+      gapPolicy,
+    },
+    conflicts,
+  };
+}
@@ -0,0 +1,42 @@
+// Dependency graph over skills, from prerequisites and parent skills
+
+import type { Subcategory } from '../types/types';
+
+// A parent skill is treated as a prerequisite of its specializations
+export function getSkillDependencies(skill: Subcategory): string[] {
+  const ids = [...(skill.prerequisites ?? [])];
+  if (skill.parentId && !ids.includes(skill.parentId)) ids.push(skill.parentId);
+  return ids;
+}
+
+// First dependency cycle found, as skill ids with the first id repeated at the
+// end (a → b → a), or null when the graph is acyclic
+export function findSkillCycle(skills: Subcategory[]): string[] | null {
+  const byId = new Map(skills.map((s) => [s.id, s]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+    const skill = byId.get(id);
+    if (!skill) return null;
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dep of getSkillDependencies(skill)) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const skill of skills) {
+    const cycle = visit(skill.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}